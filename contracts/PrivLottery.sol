@@ -3,6 +3,11 @@ pragma solidity ^0.8.24;
 
 import "@fhevm/solidity/lib/FHE.sol";
 import "@fhevm/solidity/config/ZamaConfig.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./interfaces/IConfidentialToken.sol";
+import "./libraries/LotteryScoring.sol";
 
 /**
  * @title PrivLottery
@@ -14,6 +19,49 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
  * 1. Conviction Weighted - Best combination of accuracy and confidence (50%)
  * 2. Raw Accuracy - Closest guess regardless of confidence (30%)
  * 3. Best Calibrated - Confidence most closely matched actual error (20%)
+ *
+ * Winners are always three distinct entries. Categories are awarded in priority
+ * order Conviction > Accuracy > Calibration: an entry that leads several categories
+ * keeps the highest-priority one and the runner-up is promoted in the others.
+ *
+ * An address may submit up to maxEntriesPerAddress entries per round, each paid separately
+ * and scored as its own ticket. One address can therefore hold several winning tickets and is
+ * credited the prize of each.
+ *
+ * Tie Policy (set by the owner, snapshotted per round):
+ * - EarliestSubmission: equal scores go to the entry submitted first
+ * - SplitEvenly: entries tied with a category winner share its prize
+ * - RandomTiebreak: equal scores are ordered by a hidden FHE.randEuint8 seed
+ *
+ * Payouts are pull-based: prizes, refunds and fees are credited and withdrawn with claim(),
+ * so a recipient that rejects ETH cannot block settlement for everyone else.
+ *
+ * Reconciliation: the balance covers the open pools (current round and rollover) and every
+ * credited amount (totalClaimable). Anything above that, such as rounding dust from the
+ * prize shares, can be swept to the treasury by the owner with sweepSurplus().
+ *
+ * Round extensions (optional, part of the round config): a round that ends with too few
+ * entries is reopened with extendRound() up to maxExtensions times, keeping its entries,
+ * and can only be cancelled once no extension is left.
+ *
+ * Rollover (optional, part of the round config): the pending rollover pool is moved into the
+ * prize pool of each new round. It is fed by contributions through fundRollover(), a share of
+ * the platform fee, prizes left unclaimed past the round's claim window, and whatever a
+ * cancelled round had carried over or been sponsored with. The platform fee is only taken
+ * from new entries.
+ *
+ * Sponsorship: anyone can add ETH to the open round's prize pool with sponsorRound(), which is
+ * recorded per sponsor. Plain ETH transfers are rejected, so nothing lands outside a pool.
+ *
+ * Entry fees are paid in native ETH, or in the ERC-20 set at deployment. Token entries use
+ * an allowance, or a permit signature with submitPredictionWithPermit; prizes, refunds and
+ * fees are then credited and claimed in that token.
+ *
+ * Confidential payouts (optional, snapshotted per round): with a confidential payout token
+ * set, prizes are wrapped into it and transferred as encrypted amounts, and winners
+ * user-decrypt their own token balance. The platform fee is still credited in the clear.
+ * This keeps balances confidential, not prizes: each prize follows from the public pool,
+ * shares and winners, so prizes are stored and emitted as in plain rounds.
  * 
  * Privacy Guarantees:
  * - During round: All values encrypted, submissions look identical on-chain
@@ -21,29 +69,58 @@ import "@fhevm/solidity/config/ZamaConfig.sol";
  * - Scoring: Computed under encryption using FHE.sub, FHE.mul, FHE.lt, FHE.select
  */
 contract PrivLottery is ZamaEthereumConfig {
+    using SafeERC20 for IERC20;
+
     // ============ Constants ============
-    uint256 public constant ROUND_DURATION = 1 hours;
-    uint256 public constant ENTRY_PRICE = 0.001 ether;
-    uint256 public constant MAX_PARTICIPANTS = 100;
-    uint256 public constant PLATFORM_FEE_BPS = 100; // 1%
     uint32 public constant MIN_GUESS = 0;
-    uint32 public constant MAX_GUESS = 1023;
-    uint32 public constant MAX_CONFIDENCE = 100;
+    uint32 public constant MAX_GUESS = LotteryScoring.MAX_GUESS;
+    uint32 public constant MAX_CONFIDENCE = LotteryScoring.MAX_CONFIDENCE;
+    uint256 public constant MIN_PARTICIPANTS = 3;
+    uint256 public constant BPS_DENOMINATOR = 10000;
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 1000; // 10%
+
+    // Default round parameters, adjustable by the owner with setRoundConfig
+    uint256 public constant DEFAULT_ROUND_DURATION = 1 hours;
+    uint256 public constant DEFAULT_ENTRY_PRICE = 0.001 ether;
+    uint256 public constant DEFAULT_MAX_PARTICIPANTS = 100;
+    uint256 public constant DEFAULT_MAX_ENTRIES_PER_ADDRESS = 1;
+    uint256 public constant DEFAULT_EXTENSION_DURATION = 30 minutes;
+    uint256 public constant DEFAULT_MAX_EXTENSIONS = 0; // Extensions off: short rounds are cancelled
+    uint256 public constant DEFAULT_CLAIM_WINDOW = 0; // Prizes never expire
+    uint256 public constant DEFAULT_FEE_ROLLOVER_BPS = 0; // Whole fee goes to the treasury
+    uint256 public constant DEFAULT_PLATFORM_FEE_BPS = 100; // 1%
     
-    // Prize distribution in basis points
-    uint256 public constant CONVICTION_SHARE_BPS = 5000; // 50%
-    uint256 public constant ACCURACY_SHARE_BPS = 3000;   // 30%
-    uint256 public constant CALIBRATION_SHARE_BPS = 2000; // 20%
+    // Default prize distribution in basis points
+    uint256 public constant DEFAULT_CONVICTION_SHARE_BPS = 5000; // 50%
+    uint256 public constant DEFAULT_ACCURACY_SHARE_BPS = 3000;   // 30%
+    uint256 public constant DEFAULT_CALIBRATION_SHARE_BPS = 2000; // 20%
 
     // ============ Enums ============
     enum RoundStatus { Active, Settling, Completed, Cancelled }
     enum WinnerCategory { Conviction, Accuracy, Calibration }
+    enum TiePolicy { EarliestSubmission, SplitEvenly, RandomTiebreak }
 
     // ============ Structs ============
+    struct RoundConfig {
+        uint256 duration;
+        uint256 entryPrice;
+        uint256 maxParticipants; // Total entries, counting every ticket
+        uint256 maxEntriesPerAddress;
+        uint256 extensionDuration; // How long each extension reopens a short round for
+        uint256 maxExtensions; // Extensions before a short round is cancelled; 0 disables them
+        uint256 claimWindow; // How long prizes stay claimable before they roll over; 0 never expires
+        uint256 feeRolloverBps; // Share of the platform fee seeded into the next round
+        uint256 platformFeeBps;
+        uint256 convictionShareBps;
+        uint256 accuracyShareBps;
+        uint256 calibrationShareBps;
+    }
+
     struct Participant {
         address addr;
         euint32 encryptedGuess;
         euint32 encryptedConfidence;
+        ebool encryptedValid; // Both inputs were in range; false entries rank last everywhere
         // Encrypted scores computed at settlement
         euint32 encryptedDistance;
         euint32 encryptedConvictionScore;
@@ -62,6 +139,12 @@ contract PrivLottery is ZamaEthereumConfig {
         uint32 score;
     }
 
+    struct CoWinner {
+        address addr;
+        WinnerCategory category;
+        uint256 prize;
+    }
+
     struct Round {
         uint256 roundId;
         uint256 startTime;
@@ -70,63 +153,250 @@ contract PrivLottery is ZamaEthereumConfig {
         euint32 encryptedWinningNumber;
         uint32 revealedWinningNumber;
         uint256 prizePool;
+        uint256 carriedOver; // Part of prizePool rolled over from earlier rounds
+        uint256 sponsored; // Part of prizePool added with sponsorRound()
         uint256 participantCount;
         uint256 scoresComputedCount;
-        // Encrypted winner tracking
+        uint256 extensionCount;
+        uint256 completedAt;
+        bool unclaimedRolledOver;
+        RoundConfig config; // Snapshot of roundConfig when the round started
+        TiePolicy tiePolicy;
+        euint32 tieBreakSeed; // Only used by RandomTiebreak
+        IConfidentialToken payoutToken; // address(0) for plain claimable credits
+        // Encrypted top-3 rankings per category, best first. Values are ranking keys
+        // (score << TIE_BREAK_BITS | tiebreak), so equal scores never compare equal
+        euint32[3] convictionRankIdx;
+        euint32[3] convictionRankScore;
+        euint32[3] accuracyRankIdx;
+        euint32[3] accuracyRankDistance; // Lower is better
+        euint32[3] calibrationRankIdx;
+        euint32[3] calibrationRankError; // Lower is better
+        // Under SplitEvenly, per ranked slot a winner can come from: a bitmask of every
+        // scored entry sharing its score
+        euint128[3] convictionTieMask;
+        euint128[3] accuracyTieMask;
+        euint128[3] calibrationTieMask;
+        // Encrypted distinct winners, resolved from the rankings when the reveal is requested
         euint32 bestConvictionIdx;
-        euint32 bestConvictionScore;
         euint32 bestAccuracyIdx;
-        euint32 bestAccuracyDistance; // Lower is better
         euint32 bestCalibrationIdx;
-        euint32 bestCalibrationError; // Lower is better
+        // Entries tied with each category winner under SplitEvenly, as index bitmasks
+        euint128[3] coWinnerMask;
+        // Two-step reveal: indices are decrypted first, then winner data
+        bool revealRequested;
+        bool winnerIndicesRevealed;
+        uint32[3] revealedWinnerIndices;
+        uint128[3] revealedCoWinnerMasks;
         Winner[3] winners;
         bool isSettled;
     }
 
     // ============ State Variables ============
+    IERC20 public immutable entryToken; // address(0) for native ETH
     uint256 public currentRoundId;
     address public treasury;
+    address public owner;
+    TiePolicy public tiePolicy;
+    IConfidentialToken public confidentialPayoutToken; // Applied from the next round
+    RoundConfig public roundConfig; // Applied from the next round
     
     mapping(uint256 => Round) public rounds;
     mapping(uint256 => mapping(uint256 => Participant)) public participants;
-    mapping(uint256 => mapping(address => bool)) public hasParticipated;
+    mapping(uint256 => mapping(address => uint256[])) internal participantIndicesOf;
+    mapping(uint256 => CoWinner[]) internal roundCoWinners;
+    mapping(address => uint256) public claimable;
+    mapping(address => uint256) public lastClaimedAt;
+    mapping(uint256 => mapping(address => uint256)) public sponsorships;
     
     uint256 public totalFeesCollected;
+    uint256 public rolloverPool; // Added to the next round's prize pool when it starts
+    uint256 public totalClaimable; // Sum of all claimable balances
 
     // ============ Events ============
     event RoundStarted(uint256 indexed roundId, uint256 startTime, uint256 endTime);
     event ParticipantJoined(uint256 indexed roundId, address indexed participant, uint256 participantIndex);
     event ScoresComputed(uint256 indexed roundId, uint256 batchStart, uint256 batchEnd);
     event RoundSettling(uint256 indexed roundId);
+    event WinnerRevealRequested(uint256 indexed roundId);
+    event WinnerIndicesRevealed(uint256 indexed roundId, uint32 convictionIdx, uint32 accuracyIdx, uint32 calibrationIdx);
     event WinnerDeclared(uint256 indexed roundId, WinnerCategory category, address winner, uint256 prize);
     event RoundCompleted(uint256 indexed roundId, uint32 winningNumber);
     event RoundCancelled(uint256 indexed roundId, uint256 participantCount);
+    event RoundExtended(uint256 indexed roundId, uint256 newEndTime, uint256 extensionCount);
+    event TiePolicyUpdated(TiePolicy policy);
+    event ConfidentialPayoutTokenUpdated(address token);
+    event RoundConfigUpdated(RoundConfig config);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event Claimed(address indexed account, uint256 amount);
+    event RolloverFunded(address indexed contributor, uint256 amount);
+    event RolloverCarried(uint256 indexed roundId, uint256 amount);
+    event UnclaimedPrizesRolledOver(uint256 indexed roundId, uint256 amount);
+    event SurplusSwept(uint256 amount);
+    event RoundSponsored(uint256 indexed roundId, address indexed sponsor, uint256 amount, string message);
 
     // ============ Errors ============
     error RoundNotActive();
     error RoundEnded();
-    error AlreadyParticipated();
+    error EntryLimitReached();
     error RoundFull();
     error IncorrectEntryFee();
     error NotEnoughParticipants();
     error RoundNotEnded();
     error RoundNotSettling();
     error ScoresNotComputed();
+    error RevealNotRequested();
+    error WinnersAlreadyRevealed();
+    error WinnersNotRevealed();
+    error RevealAlreadyRequested();
+    error DuplicateWinners();
     error InvalidProof();
     error TransferFailed();
     error InvalidBatch();
+    error NotParticipant();
+    error NotOwner();
+    error NothingToClaim();
+    error InvalidConfig();
+    error RoundNotEmpty();
+    error InvalidOwner();
+    error NotTokenLottery();
+    error InvalidPayoutToken();
+    error ExtensionAvailable();
+    error CannotExtend();
+    error RoundNotCompleted();
+    error ClaimWindowOpen();
+    error AlreadyRolledOver();
+    error NotEthLottery();
+    error NothingToSweep();
+
+    // ============ Modifiers ============
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
 
     // ============ Constructor ============
-    constructor(address _treasury) {
+    /**
+     * @param _treasury Recipient of the platform fee
+     * @param _entryToken ERC-20 the entry fee is paid in, or address(0) for native ETH
+     */
+    constructor(address _treasury, address _entryToken) {
         require(_treasury != address(0), "Invalid treasury");
         treasury = _treasury;
+        entryToken = IERC20(_entryToken);
+        owner = msg.sender;
+        roundConfig = RoundConfig({
+            duration: DEFAULT_ROUND_DURATION,
+            entryPrice: DEFAULT_ENTRY_PRICE,
+            maxParticipants: DEFAULT_MAX_PARTICIPANTS,
+            maxEntriesPerAddress: DEFAULT_MAX_ENTRIES_PER_ADDRESS,
+            extensionDuration: DEFAULT_EXTENSION_DURATION,
+            maxExtensions: DEFAULT_MAX_EXTENSIONS,
+            claimWindow: DEFAULT_CLAIM_WINDOW,
+            feeRolloverBps: DEFAULT_FEE_ROLLOVER_BPS,
+            platformFeeBps: DEFAULT_PLATFORM_FEE_BPS,
+            convictionShareBps: DEFAULT_CONVICTION_SHARE_BPS,
+            accuracyShareBps: DEFAULT_ACCURACY_SHARE_BPS,
+            calibrationShareBps: DEFAULT_CALIBRATION_SHARE_BPS
+        });
         _startNewRound();
     }
 
     // ============ External Functions ============
 
     /**
-     * @notice Submit an encrypted guess and confidence level
+     * @notice Set how equal scores are resolved
+     * @dev Applies from the next round; the current round keeps the policy it started with
+     * @param policy The tie policy for future rounds
+     */
+    function setTiePolicy(TiePolicy policy) external onlyOwner {
+        tiePolicy = policy;
+        emit TiePolicyUpdated(policy);
+    }
+
+    /**
+     * @notice Pay future prizes as encrypted balances of a confidential token
+     * @dev The token must wrap this lottery's entry asset. Applies from the next round.
+     *      Hides winners' balances, not what a round paid them: prizes remain derivable from
+     *      public round data.
+     * @param token Confidential wrapper of the entry asset, or address(0) to pay in the clear
+     */
+    function setConfidentialPayoutToken(address token) external onlyOwner {
+        if (token != address(0) && IConfidentialToken(token).underlying() != address(entryToken)) {
+            revert InvalidPayoutToken();
+        }
+        confidentialPayoutToken = IConfidentialToken(token);
+        emit ConfidentialPayoutTokenUpdated(token);
+    }
+
+    /**
+     * @notice Set the duration, entry price, capacity, per-address cap, extensions, rollover, fee and prize shares of future rounds
+     * @dev Applies from the next round; the current round keeps the config it started with
+     * @param config The round parameters; the three shares must add up to 100%
+     */
+    function setRoundConfig(RoundConfig calldata config) external onlyOwner {
+        if (
+            config.duration == 0 ||
+            config.entryPrice == 0 ||
+            config.maxParticipants < MIN_PARTICIPANTS ||
+            config.maxParticipants > uint256(LotteryScoring.TIE_BREAK_MAX) + 1 ||
+            config.maxEntriesPerAddress == 0 ||
+            config.maxEntriesPerAddress > config.maxParticipants ||
+            (config.maxExtensions > 0 && config.extensionDuration == 0) ||
+            config.feeRolloverBps > BPS_DENOMINATOR ||
+            config.platformFeeBps > MAX_PLATFORM_FEE_BPS ||
+            config.convictionShareBps + config.accuracyShareBps + config.calibrationShareBps != BPS_DENOMINATOR
+        ) revert InvalidConfig();
+
+        roundConfig = config;
+        emit RoundConfigUpdated(config);
+    }
+
+    /**
+     * @notice Restart the current round with the latest config and tie policy
+     * @dev Only while nobody has entered, so no participant's terms change. Lets a freshly
+     *      deployed instance start its first round with a custom config.
+     */
+    function applyConfigToCurrentRound() external onlyOwner {
+        Round storage round = rounds[currentRoundId];
+
+        if (round.status != RoundStatus.Active) revert RoundNotActive();
+        if (round.participantCount > 0) revert RoundNotEmpty();
+
+        round.config = roundConfig;
+        round.tiePolicy = tiePolicy;
+        round.payoutToken = confidentialPayoutToken;
+        round.startTime = block.timestamp;
+        round.endTime = block.timestamp + roundConfig.duration;
+
+        emit RoundStarted(currentRoundId, round.startTime, round.endTime);
+    }
+
+    /**
+     * @notice Hand the admin role to another account
+     */
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert InvalidOwner();
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /**
+     * @notice Credit the balance not owed to anyone, such as prize rounding dust, to the treasury
+     */
+    function sweepSurplus() external onlyOwner {
+        (uint256 balance, uint256 openPools, uint256 owed) = reconcile();
+        if (balance <= openPools + owed) revert NothingToSweep();
+
+        uint256 surplus = balance - openPools - owed;
+        _credit(treasury, surplus);
+        emit SurplusSwept(surplus);
+    }
+
+    /**
+     * @notice Submit an encrypted guess and confidence level as one ticket
+     * @dev Pays the entry price in ETH, or in entryToken from an existing allowance. Callable
+     *      up to maxEntriesPerAddress times per round.
      * @param encryptedGuess The encrypted guess (0-1023)
      * @param encryptedConfidence The encrypted confidence level (0-100)
      * @param inputProof Zero-knowledge proof for the encrypted inputs
@@ -136,60 +406,160 @@ contract PrivLottery is ZamaEthereumConfig {
         externalEuint32 encryptedConfidence,
         bytes calldata inputProof
     ) external payable {
-        Round storage round = rounds[currentRoundId];
-        
-        if (round.status != RoundStatus.Active) revert RoundNotActive();
-        if (block.timestamp >= round.endTime) revert RoundEnded();
-        if (hasParticipated[currentRoundId][msg.sender]) revert AlreadyParticipated();
-        if (round.participantCount >= MAX_PARTICIPANTS) revert RoundFull();
-        if (msg.value != ENTRY_PRICE) revert IncorrectEntryFee();
+        _enter(encryptedGuess, encryptedConfidence, inputProof);
+    }
 
-        // Convert external encrypted inputs to internal encrypted types
-        euint32 guess = FHE.fromExternal(encryptedGuess, inputProof);
-        euint32 confidence = FHE.fromExternal(encryptedConfidence, inputProof);
+    /**
+     * @notice Approve the entry price with an EIP-2612 permit and enter in one transaction
+     * @dev A failing permit is ignored so a front-run signature still leaves a usable allowance;
+     *      the transfer then reverts if there is none.
+     * @param deadline Permit expiry
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     */
+    function submitPredictionWithPermit(
+        externalEuint32 encryptedGuess,
+        externalEuint32 encryptedConfidence,
+        bytes calldata inputProof,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        if (address(entryToken) == address(0)) revert NotTokenLottery();
 
-        // Store participant data (scores computed later during settlement)
-        uint256 participantIndex = round.participantCount;
-        participants[currentRoundId][participantIndex] = Participant({
-            addr: msg.sender,
-            encryptedGuess: guess,
-            encryptedConfidence: confidence,
-            encryptedDistance: FHE.asEuint32(0),
-            encryptedConvictionScore: FHE.asEuint32(0),
-            encryptedCalibrationError: FHE.asEuint32(0),
-            submittedAt: block.timestamp,
-            scoresComputed: false
-        });
+        uint256 price = rounds[currentRoundId].config.entryPrice;
+        try IERC20Permit(address(entryToken)).permit(msg.sender, address(this), price, deadline, v, r, s) {} catch {}
+
+        _enter(encryptedGuess, encryptedConfidence, inputProof);
+    }
+
+    /**
+     * @notice Withdraw all credited prizes, refunds and fees
+     * @dev Paid in entryToken for token lotteries, ETH otherwise
+     */
+    function claim() external {
+        uint256 amount = claimable[msg.sender];
+        if (amount == 0) revert NothingToClaim();
+
+        claimable[msg.sender] = 0;
+        totalClaimable -= amount;
+        lastClaimedAt[msg.sender] = block.timestamp;
+        if (address(entryToken) == address(0)) {
+            (bool sent, ) = msg.sender.call{value: amount}("");
+            if (!sent) revert TransferFailed();
+        } else {
+            entryToken.safeTransfer(msg.sender, amount);
+        }
+
+        emit Claimed(msg.sender, amount);
+    }
+
+    /**
+     * @notice Add to the rollover pool carried into the next round
+     * @dev Paid like an entry: ETH with msg.value == amount, or entryToken from an allowance
+     * @param amount Contribution in the entry asset
+     */
+    function fundRollover(uint256 amount) external payable {
+        if (amount == 0) revert IncorrectEntryFee();
+        _collectEntryFee(amount);
+
+        rolloverPool += amount;
+        emit RolloverFunded(msg.sender, amount);
+    }
+
+    /**
+     * @notice Add the sent ETH to the prize pool of the open round, attributed to the sender
+     * @dev Only for the current, active round so a delayed transaction cannot land in a later one.
+     *      If the round is cancelled, the sponsored amount rolls over to the next round.
+     * @param roundId The round to sponsor, which must be the current round
+     * @param message Shown next to the contribution; only emitted, not stored
+     */
+    function sponsorRound(uint256 roundId, string calldata message) external payable {
+        if (address(entryToken) != address(0)) revert NotEthLottery();
+        if (msg.value == 0) revert IncorrectEntryFee();
+
+        Round storage round = rounds[roundId];
+        if (roundId != currentRoundId || round.status != RoundStatus.Active) revert RoundNotActive();
 
-        // Update round state
-        round.participantCount++;
         round.prizePool += msg.value;
-        hasParticipated[currentRoundId][msg.sender] = true;
+        round.sponsored += msg.value;
+        sponsorships[roundId][msg.sender] += msg.value;
 
-        // Grant ACL permissions for later operations
-        FHE.allowThis(guess);
-        FHE.allowThis(confidence);
+        emit RoundSponsored(roundId, msg.sender, msg.value, message);
+    }
 
-        emit ParticipantJoined(currentRoundId, msg.sender, participantIndex);
+    /**
+     * @notice Move prizes of a completed round that were not claimed in time into the rollover pool
+     * @dev Callable by anyone once the round's claimWindow has passed. A prize counts as claimed
+     *      if its winner called claim() after the round completed. Confidential payouts were
+     *      transferred at finalization and never expire, so such rounds have nothing to take.
+     * @param roundId The completed round
+     */
+    function rollOverUnclaimedPrizes(uint256 roundId) external {
+        Round storage round = rounds[roundId];
+
+        if (round.status != RoundStatus.Completed) revert RoundNotCompleted();
+        if (round.config.claimWindow == 0 || block.timestamp < round.completedAt + round.config.claimWindow) {
+            revert ClaimWindowOpen();
+        }
+        if (round.unclaimedRolledOver) revert AlreadyRolledOver();
+        round.unclaimedRolledOver = true;
+
+        uint256 total;
+        if (address(round.payoutToken) == address(0)) {
+            for (uint256 c = 0; c < 3; c++) {
+                total += _expirePrize(round.winners[c].addr, round.winners[c].prize, round.completedAt);
+            }
+            CoWinner[] storage coWinners = roundCoWinners[roundId];
+            for (uint256 i = 0; i < coWinners.length; i++) {
+                total += _expirePrize(coWinners[i].addr, coWinners[i].prize, round.completedAt);
+            }
+        }
+
+        rolloverPool += total;
+        emit UnclaimedPrizesRolledOver(roundId, total);
+    }
+
+    /**
+     * @notice Reopen a round that ended with insufficient participants
+     * @dev Entries carry over. Only while the round has entries and extensions left; each
+     *      extension keeps the round open for extensionDuration from now.
+     */
+    function extendRound() external {
+        Round storage round = rounds[currentRoundId];
+
+        if (round.status != RoundStatus.Active) revert RoundNotActive();
+        if (block.timestamp < round.endTime) revert RoundNotEnded();
+        if (round.participantCount >= MIN_PARTICIPANTS) revert("Use settleRound instead");
+        if (!_canExtend(round)) revert CannotExtend();
+
+        round.extensionCount++;
+        round.endTime = block.timestamp + round.config.extensionDuration;
+
+        emit RoundExtended(currentRoundId, round.endTime, round.extensionCount);
     }
 
     /**
      * @notice Cancel a round that ended with insufficient participants
-     * @dev Refunds all participants and starts a new round
+     * @dev Credits a refund to every participant and starts a new round. A round that can
+     *      still be extended must be extended instead.
      */
     function cancelRound() external {
         Round storage round = rounds[currentRoundId];
         
         if (round.status != RoundStatus.Active) revert RoundNotActive();
         if (block.timestamp < round.endTime) revert RoundNotEnded();
-        if (round.participantCount >= 3) revert("Use settleRound instead");
+        if (round.participantCount >= MIN_PARTICIPANTS) revert("Use settleRound instead");
+        if (_canExtend(round)) revert ExtensionAvailable();
 
-        // Refund all participants
+        // Credit refunds, claimed later with claim()
         for (uint256 i = 0; i < round.participantCount; i++) {
-            address participant = participants[currentRoundId][i].addr;
-            (bool sent, ) = participant.call{value: ENTRY_PRICE}("");
-            require(sent, "Refund failed");
+            _credit(participants[currentRoundId][i].addr, round.config.entryPrice);
         }
+        // Carried-over and sponsored money was not paid by an entry, so it moves on to the next round
+        rolloverPool += round.carriedOver + round.sponsored;
 
         round.status = RoundStatus.Cancelled;
         emit RoundCancelled(currentRoundId, round.participantCount);
@@ -206,25 +576,10 @@ contract PrivLottery is ZamaEthereumConfig {
         
         if (round.status != RoundStatus.Active) revert RoundNotActive();
         if (block.timestamp < round.endTime) revert RoundNotEnded();
-        if (round.participantCount < 3) revert NotEnoughParticipants();
+        if (round.participantCount < MIN_PARTICIPANTS) revert NotEnoughParticipants();
 
         round.status = RoundStatus.Settling;
-        
-        // Initialize encrypted winner tracking
-        // Use max values for "lower is better" metrics (distance, calibration)
-        round.bestConvictionScore = FHE.asEuint32(0);
-        round.bestConvictionIdx = FHE.asEuint32(0);
-        round.bestAccuracyDistance = FHE.asEuint32(MAX_GUESS + 1);
-        round.bestAccuracyIdx = FHE.asEuint32(0);
-        round.bestCalibrationError = FHE.asEuint32(MAX_CONFIDENCE + 1);
-        round.bestCalibrationIdx = FHE.asEuint32(0);
-        
-        FHE.allowThis(round.bestConvictionScore);
-        FHE.allowThis(round.bestConvictionIdx);
-        FHE.allowThis(round.bestAccuracyDistance);
-        FHE.allowThis(round.bestAccuracyIdx);
-        FHE.allowThis(round.bestCalibrationError);
-        FHE.allowThis(round.bestCalibrationIdx);
+        LotteryScoring.initRankings(round);
 
         emit RoundSettling(currentRoundId);
     }
@@ -246,77 +601,12 @@ contract PrivLottery is ZamaEthereumConfig {
         }
         if (batchStart >= batchEnd) revert InvalidBatch();
 
-        euint32 winningNum = round.encryptedWinningNumber;
-
         for (uint256 i = batchStart; i < batchEnd; i++) {
             Participant storage p = participants[currentRoundId][i];
             
             if (p.scoresComputed) continue;
 
-            // Compute encrypted distance: |guess - winningNumber|
-            // Since we can't know which is larger, compute both and select
-            ebool guessIsLarger = FHE.ge(p.encryptedGuess, winningNum);
-            euint32 diff1 = FHE.sub(p.encryptedGuess, winningNum);
-            euint32 diff2 = FHE.sub(winningNum, p.encryptedGuess);
-            euint32 distance = FHE.select(guessIsLarger, diff1, diff2);
-            
-            // Raw score: MAX_GUESS - distance (higher is better)
-            euint32 rawScore = FHE.sub(FHE.asEuint32(MAX_GUESS), distance);
-            
-            // Conviction score: rawScore * confidence / 100
-            // Simplified: (rawScore * confidence) to avoid division issues
-            euint32 convictionScore = FHE.mul(rawScore, p.encryptedConfidence);
-            
-            // Accuracy percentage: (rawScore * 100) / MAX_GUESS
-            // Simplified for FHE: rawScore * 100 / 1024 ≈ rawScore / 10
-            // Actually, let's use: accuracyPct = rawScore * 100 / MAX_GUESS
-            // Since MAX_GUESS = 1023 ≈ 1024, we can approximate
-            // For calibration: |confidence - (rawScore * 100 / 1023)|
-            // Simplified: store rawScore, compute calibration as |confidence*10 - rawScore|
-            euint32 scaledRawScore = FHE.mul(rawScore, FHE.asEuint32(100));
-            euint32 normalizedScore = FHE.div(scaledRawScore, MAX_GUESS);
-            
-            // Calibration error: |confidence - normalizedScore|
-            ebool confIsLarger = FHE.ge(p.encryptedConfidence, normalizedScore);
-            euint32 calDiff1 = FHE.sub(p.encryptedConfidence, normalizedScore);
-            euint32 calDiff2 = FHE.sub(normalizedScore, p.encryptedConfidence);
-            euint32 calibrationError = FHE.select(confIsLarger, calDiff1, calDiff2);
-
-            // Store encrypted scores
-            p.encryptedDistance = distance;
-            p.encryptedConvictionScore = convictionScore;
-            p.encryptedCalibrationError = calibrationError;
-            p.scoresComputed = true;
-            
-            FHE.allowThis(distance);
-            FHE.allowThis(convictionScore);
-            FHE.allowThis(calibrationError);
-
-            // Update encrypted winner tracking
-            euint32 currentIdx = FHE.asEuint32(uint32(i));
-            
-            // Best conviction (higher is better)
-            ebool isBetterConviction = FHE.gt(convictionScore, round.bestConvictionScore);
-            round.bestConvictionScore = FHE.select(isBetterConviction, convictionScore, round.bestConvictionScore);
-            round.bestConvictionIdx = FHE.select(isBetterConviction, currentIdx, round.bestConvictionIdx);
-            FHE.allowThis(round.bestConvictionScore);
-            FHE.allowThis(round.bestConvictionIdx);
-            
-            // Best accuracy (lower distance is better)
-            ebool isBetterAccuracy = FHE.lt(distance, round.bestAccuracyDistance);
-            round.bestAccuracyDistance = FHE.select(isBetterAccuracy, distance, round.bestAccuracyDistance);
-            round.bestAccuracyIdx = FHE.select(isBetterAccuracy, currentIdx, round.bestAccuracyIdx);
-            FHE.allowThis(round.bestAccuracyDistance);
-            FHE.allowThis(round.bestAccuracyIdx);
-            
-            // Best calibration (lower error is better)
-            ebool isBetterCalibration = FHE.lt(calibrationError, round.bestCalibrationError);
-            round.bestCalibrationError = FHE.select(isBetterCalibration, calibrationError, round.bestCalibrationError);
-            round.bestCalibrationIdx = FHE.select(isBetterCalibration, currentIdx, round.bestCalibrationIdx);
-            FHE.allowThis(round.bestCalibrationError);
-            FHE.allowThis(round.bestCalibrationIdx);
-
-            round.scoresComputedCount++;
+            LotteryScoring.scoreParticipant(round, p, uint32(i));
         }
 
         emit ScoresComputed(currentRoundId, batchStart, batchEnd);
@@ -330,12 +620,66 @@ contract PrivLottery is ZamaEthereumConfig {
         
         if (round.status != RoundStatus.Settling) revert RoundNotSettling();
         if (round.scoresComputedCount < round.participantCount) revert ScoresNotComputed();
+        if (round.revealRequested) revert RevealAlreadyRequested();
+
+        // Promote runners-up so the three categories go to distinct participants
+        LotteryScoring.resolveDistinctWinners(round);
+        LotteryScoring.publishWinnerIndices(round);
+
+        round.revealRequested = true;
+        emit WinnerRevealRequested(currentRoundId);
+    }
+
+    /**
+     * @notice Submit the decrypted winner indices so their entry data can be revealed
+     * @dev Winner guesses, confidences and distances are only made publicly decryptable
+     *      once the indices are proven, so no other participant's data is ever exposed.
+     *      Co-winners only share a prize, so their entry data stays private.
+     * @param convictionWinnerIdx Index of conviction winner
+     * @param accuracyWinnerIdx Index of accuracy winner
+     * @param calibrationWinnerIdx Index of calibration winner
+     * @param coWinnerMasks Bitmasks of the co-winner indices tied with each category winner
+     * @param decryptionProof Proof from the KMS for the handles of getWinnerIndexHandles
+     */
+    function revealWinnerIndices(
+        uint32 convictionWinnerIdx,
+        uint32 accuracyWinnerIdx,
+        uint32 calibrationWinnerIdx,
+        uint128[3] calldata coWinnerMasks,
+        bytes calldata decryptionProof
+    ) external {
+        Round storage round = rounds[currentRoundId];
+
+        if (round.status != RoundStatus.Settling) revert RoundNotSettling();
+        if (!round.revealRequested) revert RevealNotRequested();
+        if (round.winnerIndicesRevealed) revert WinnersAlreadyRevealed();
 
-        // Make winning number and winner indices publicly decryptable
-        FHE.makePubliclyDecryptable(round.encryptedWinningNumber);
-        FHE.makePubliclyDecryptable(round.bestConvictionIdx);
-        FHE.makePubliclyDecryptable(round.bestAccuracyIdx);
-        FHE.makePubliclyDecryptable(round.bestCalibrationIdx);
+        FHE.checkSignatures(
+            _winnerIndexHandles(round),
+            abi.encode(
+                convictionWinnerIdx,
+                accuracyWinnerIdx,
+                calibrationWinnerIdx,
+                coWinnerMasks[0],
+                coWinnerMasks[1],
+                coWinnerMasks[2]
+            ),
+            decryptionProof
+        );
+
+        round.revealedWinnerIndices = [convictionWinnerIdx, accuracyWinnerIdx, calibrationWinnerIdx];
+        round.revealedCoWinnerMasks = coWinnerMasks;
+        round.winnerIndicesRevealed = true;
+
+        // Make winner data decryptable
+        for (uint256 i = 0; i < 3; i++) {
+            Participant storage p = participants[currentRoundId][round.revealedWinnerIndices[i]];
+            FHE.makePubliclyDecryptable(p.encryptedGuess);
+            FHE.makePubliclyDecryptable(p.encryptedConfidence);
+            FHE.makePubliclyDecryptable(p.encryptedDistance);
+        }
+
+        emit WinnerIndicesRevealed(currentRoundId, convictionWinnerIdx, accuracyWinnerIdx, calibrationWinnerIdx);
     }
 
     /**
@@ -363,41 +707,12 @@ contract PrivLottery is ZamaEthereumConfig {
         
         if (round.status != RoundStatus.Settling) revert RoundNotSettling();
         if (round.scoresComputedCount < round.participantCount) revert ScoresNotComputed();
+        if (!round.winnerIndicesRevealed) revert WinnersNotRevealed();
 
-        // Build handles array for verification
-        // Order: winningNumber, convictionIdx, accuracyIdx, calibrationIdx,
-        //        then for each winner: guess, confidence, distance
-        bytes32[] memory handles = new bytes32[](13);
-        handles[0] = FHE.toBytes32(round.encryptedWinningNumber);
-        handles[1] = FHE.toBytes32(round.bestConvictionIdx);
-        handles[2] = FHE.toBytes32(round.bestAccuracyIdx);
-        handles[3] = FHE.toBytes32(round.bestCalibrationIdx);
-        
-        // Winner data handles
-        Participant storage pConviction = participants[currentRoundId][convictionWinnerIdx];
-        Participant storage pAccuracy = participants[currentRoundId][accuracyWinnerIdx];
-        Participant storage pCalibration = participants[currentRoundId][calibrationWinnerIdx];
-        
-        // Make winner data decryptable
-        FHE.makePubliclyDecryptable(pConviction.encryptedGuess);
-        FHE.makePubliclyDecryptable(pConviction.encryptedConfidence);
-        FHE.makePubliclyDecryptable(pConviction.encryptedDistance);
-        FHE.makePubliclyDecryptable(pAccuracy.encryptedGuess);
-        FHE.makePubliclyDecryptable(pAccuracy.encryptedConfidence);
-        FHE.makePubliclyDecryptable(pAccuracy.encryptedDistance);
-        FHE.makePubliclyDecryptable(pCalibration.encryptedGuess);
-        FHE.makePubliclyDecryptable(pCalibration.encryptedConfidence);
-        FHE.makePubliclyDecryptable(pCalibration.encryptedDistance);
-        
-        handles[4] = FHE.toBytes32(pConviction.encryptedGuess);
-        handles[5] = FHE.toBytes32(pConviction.encryptedConfidence);
-        handles[6] = FHE.toBytes32(pConviction.encryptedDistance);
-        handles[7] = FHE.toBytes32(pAccuracy.encryptedGuess);
-        handles[8] = FHE.toBytes32(pAccuracy.encryptedConfidence);
-        handles[9] = FHE.toBytes32(pAccuracy.encryptedDistance);
-        handles[10] = FHE.toBytes32(pCalibration.encryptedGuess);
-        handles[11] = FHE.toBytes32(pCalibration.encryptedConfidence);
-        handles[12] = FHE.toBytes32(pCalibration.encryptedDistance);
+        bytes32[] memory handles = _finalizationHandles(
+            currentRoundId,
+            [convictionWinnerIdx, accuracyWinnerIdx, calibrationWinnerIdx]
+        );
 
         // Encode cleartext values
         bytes memory abiEncoded = abi.encode(
@@ -415,13 +730,15 @@ contract PrivLottery is ZamaEthereumConfig {
 
         round.revealedWinningNumber = winningNumber;
 
-        // Handle duplicate winners - promote next best if needed
+        // Promotion already happened under encryption; the proven indices must be distinct
         uint32[3] memory winnerIndices = [convictionWinnerIdx, accuracyWinnerIdx, calibrationWinnerIdx];
-        _handleDuplicateWinners(winnerIndices);
+        _checkDistinctWinners(winnerIndices);
 
         // Store winners
-        _storeWinners(
-            currentRoundId,
+        LotteryScoring.storeWinners(
+            round,
+            participants[currentRoundId],
+            roundCoWinners[currentRoundId],
             winnerIndices,
             winnerGuesses,
             winnerConfidences,
@@ -432,6 +749,7 @@ contract PrivLottery is ZamaEthereumConfig {
         _distributePrizes(currentRoundId);
 
         round.status = RoundStatus.Completed;
+        round.completedAt = block.timestamp;
         round.isSettled = true;
 
         emit RoundCompleted(currentRoundId, winningNumber);
@@ -449,7 +767,10 @@ contract PrivLottery is ZamaEthereumConfig {
         RoundStatus status,
         uint256 prizePool,
         uint256 participantCount,
-        uint256 scoresComputedCount
+        uint256 scoresComputedCount,
+        uint256 extensionCount,
+        uint256 carriedOver,
+        uint256 sponsored
     ) {
         Round storage round = rounds[currentRoundId];
         return (
@@ -459,7 +780,10 @@ contract PrivLottery is ZamaEthereumConfig {
             round.status,
             round.prizePool,
             round.participantCount,
-            round.scoresComputedCount
+            round.scoresComputedCount,
+            round.extensionCount,
+            round.carriedOver,
+            round.sponsored
         );
     }
 
@@ -467,6 +791,28 @@ contract PrivLottery is ZamaEthereumConfig {
         return rounds[roundId].winners;
     }
 
+    /**
+     * @notice Entries that tied with a category winner and shared its prize (SplitEvenly only)
+     */
+    function getCoWinners(uint256 roundId) external view returns (CoWinner[] memory) {
+        return roundCoWinners[roundId];
+    }
+
+    function getRoundConfig(uint256 roundId) external view returns (RoundConfig memory) {
+        return rounds[roundId].config;
+    }
+
+    function getRoundTiePolicy(uint256 roundId) external view returns (TiePolicy) {
+        return rounds[roundId].tiePolicy;
+    }
+
+    /**
+     * @notice Confidential token the round's prizes are paid in, or address(0) if paid in the clear
+     */
+    function getRoundPayoutToken(uint256 roundId) external view returns (address) {
+        return address(rounds[roundId].payoutToken);
+    }
+
     function getParticipant(uint256 roundId, uint256 index) external view returns (
         address addr,
         uint256 submittedAt,
@@ -476,12 +822,188 @@ contract PrivLottery is ZamaEthereumConfig {
         return (p.addr, p.submittedAt, p.scoresComputed);
     }
 
+    function hasParticipated(uint256 roundId, address player) external view returns (bool) {
+        return participantIndicesOf[roundId][player].length > 0;
+    }
+
+    function entryCount(uint256 roundId, address player) external view returns (uint256) {
+        return participantIndicesOf[roundId][player].length;
+    }
+
+    /**
+     * @notice Get the participant indices of every entry a player submitted in a round
+     * @dev In submission order
+     */
+    function getParticipantIndices(uint256 roundId, address player) external view returns (uint256[] memory) {
+        return participantIndicesOf[roundId][player];
+    }
+
+    /**
+     * @notice Get the encrypted guess and confidence handles of an entry
+     * @dev Only the entry's owner can decrypt these off-chain
+     */
+    function getEntryHandles(uint256 roundId, uint256 participantIndex) external view returns (
+        euint32 encryptedGuess,
+        euint32 encryptedConfidence
+    ) {
+        Participant storage p = _participantAt(roundId, participantIndex);
+        return (p.encryptedGuess, p.encryptedConfidence);
+    }
+
+    /**
+     * @notice Get the encrypted score handles of an entry
+     * @dev Scores exist once computeScoresBatch has processed the entry; only its owner can decrypt them
+     */
+    function getScoreHandles(uint256 roundId, uint256 participantIndex) external view returns (
+        bool scoresComputed,
+        euint32 encryptedDistance,
+        euint32 encryptedConvictionScore,
+        euint32 encryptedCalibrationError
+    ) {
+        Participant storage p = _participantAt(roundId, participantIndex);
+        return (p.scoresComputed, p.encryptedDistance, p.encryptedConvictionScore, p.encryptedCalibrationError);
+    }
+
     function getRevealedWinningNumber(uint256 roundId) external view returns (uint32) {
         return rounds[roundId].revealedWinningNumber;
     }
 
+    function getRevealStatus(uint256 roundId) external view returns (
+        bool revealRequested,
+        bool winnerIndicesRevealed,
+        uint32[3] memory winnerIndices
+    ) {
+        Round storage round = rounds[roundId];
+        return (round.revealRequested, round.winnerIndicesRevealed, round.revealedWinnerIndices);
+    }
+
+    /**
+     * @notice Get the 6 handles that revealWinnerIndices verifies, in order
+     * @dev Only meaningful once the reveal has been requested
+     */
+    function getWinnerIndexHandles(uint256 roundId) external view returns (bytes32[] memory) {
+        Round storage round = rounds[roundId];
+        if (!round.revealRequested) revert RevealNotRequested();
+        return _winnerIndexHandles(round);
+    }
+
+    function getRevealedCoWinnerMasks(uint256 roundId) external view returns (uint128[3] memory) {
+        return rounds[roundId].revealedCoWinnerMasks;
+    }
+
+    /**
+     * @notice Get the 13 handles that finalizeRound verifies, in order
+     * @dev Only meaningful once the winner indices have been revealed
+     */
+    function getFinalizationHandles(uint256 roundId) external view returns (bytes32[] memory) {
+        Round storage round = rounds[roundId];
+        if (!round.winnerIndicesRevealed) revert WinnersNotRevealed();
+        return _finalizationHandles(roundId, round.revealedWinnerIndices);
+    }
+
+    /**
+     * @notice What the contract holds against what it owes
+     * @return balance Entry asset held: ETH, or entryToken for token lotteries
+     * @return openPools Prize pool of the round in progress plus the rollover pool
+     * @return owed Credited prizes, refunds and fees not yet claimed
+     */
+    function reconcile() public view returns (uint256 balance, uint256 openPools, uint256 owed) {
+        balance = address(entryToken) == address(0)
+            ? address(this).balance
+            : entryToken.balanceOf(address(this));
+
+        // The current round is always open: a new one starts as soon as it completes or is cancelled
+        openPools = rounds[currentRoundId].prizePool + rolloverPool;
+        owed = totalClaimable;
+    }
+
     // ============ Internal Functions ============
 
+    /**
+     * @dev A short round is extended rather than cancelled while it has entries to carry over
+     *      and extensions left
+     */
+    function _canExtend(Round storage round) internal view returns (bool) {
+        return round.participantCount > 0 && round.extensionCount < round.config.maxExtensions;
+    }
+
+    function _participantAt(uint256 roundId, uint256 participantIndex) internal view returns (Participant storage) {
+        if (participantIndex >= rounds[roundId].participantCount) revert NotParticipant();
+        return participants[roundId][participantIndex];
+    }
+
+    /**
+     * @dev Shared entry path: checks the round, collects the fee and stores the sealed entry
+     */
+    function _enter(
+        externalEuint32 encryptedGuess,
+        externalEuint32 encryptedConfidence,
+        bytes calldata inputProof
+    ) internal {
+        Round storage round = rounds[currentRoundId];
+        
+        if (round.status != RoundStatus.Active) revert RoundNotActive();
+        if (block.timestamp >= round.endTime) revert RoundEnded();
+        uint256[] storage entryIndices = participantIndicesOf[currentRoundId][msg.sender];
+        if (entryIndices.length >= round.config.maxEntriesPerAddress) revert EntryLimitReached();
+        if (round.participantCount >= round.config.maxParticipants) revert RoundFull();
+        _collectEntryFee(round.config.entryPrice);
+
+        // Convert external encrypted inputs to internal encrypted types. Out-of-range values
+        // are clamped so scoring cannot overflow, and flagged so the entry cannot win
+        euint32 rawGuess = FHE.fromExternal(encryptedGuess, inputProof);
+        euint32 rawConfidence = FHE.fromExternal(encryptedConfidence, inputProof);
+        ebool valid = FHE.and(FHE.le(rawGuess, MAX_GUESS), FHE.le(rawConfidence, MAX_CONFIDENCE));
+        euint32 guess = FHE.min(rawGuess, MAX_GUESS);
+        euint32 confidence = FHE.min(rawConfidence, MAX_CONFIDENCE);
+
+        // Store participant data (scores computed later during settlement)
+        uint256 participantIndex = round.participantCount;
+        participants[currentRoundId][participantIndex] = Participant({
+            addr: msg.sender,
+            encryptedGuess: guess,
+            encryptedConfidence: confidence,
+            encryptedValid: valid,
+            encryptedDistance: FHE.asEuint32(0),
+            encryptedConvictionScore: FHE.asEuint32(0),
+            encryptedCalibrationError: FHE.asEuint32(0),
+            submittedAt: block.timestamp,
+            scoresComputed: false
+        });
+
+        // Update round state
+        round.participantCount++;
+        round.prizePool += round.config.entryPrice;
+        entryIndices.push(participantIndex);
+
+        // Grant ACL permissions for later operations
+        FHE.allowThis(guess);
+        FHE.allowThis(confidence);
+        FHE.allowThis(valid);
+
+        // Let the sender decrypt their own sealed entry
+        FHE.allow(guess, msg.sender);
+        FHE.allow(confidence, msg.sender);
+
+        emit ParticipantJoined(currentRoundId, msg.sender, participantIndex);
+    }
+
+    /**
+     * @dev Take the entry price in ETH or entryToken. Fee-on-transfer tokens are rejected
+     *      because the pool must hold exactly what it will pay out.
+     */
+    function _collectEntryFee(uint256 price) internal {
+        if (address(entryToken) == address(0)) {
+            if (msg.value != price) revert IncorrectEntryFee();
+            return;
+        }
+
+        if (msg.value != 0) revert IncorrectEntryFee();
+        uint256 balanceBefore = entryToken.balanceOf(address(this));
+        entryToken.safeTransferFrom(msg.sender, address(this), price);
+        if (entryToken.balanceOf(address(this)) - balanceBefore != price) revert IncorrectEntryFee();
+    }
+
     function _startNewRound() internal {
         currentRoundId++;
         
@@ -495,95 +1017,184 @@ contract PrivLottery is ZamaEthereumConfig {
         Round storage newRound = rounds[currentRoundId];
         newRound.roundId = currentRoundId;
         newRound.startTime = block.timestamp;
-        newRound.endTime = block.timestamp + ROUND_DURATION;
+        newRound.endTime = block.timestamp + roundConfig.duration;
         newRound.status = RoundStatus.Active;
         newRound.encryptedWinningNumber = encryptedWinning;
         newRound.revealedWinningNumber = 0;
-        newRound.prizePool = 0;
+        newRound.prizePool = rolloverPool;
+        newRound.carriedOver = rolloverPool;
         newRound.participantCount = 0;
         newRound.scoresComputedCount = 0;
+        newRound.config = roundConfig;
+        newRound.tiePolicy = tiePolicy;
+        newRound.payoutToken = confidentialPayoutToken;
         newRound.isSettled = false;
 
-        emit RoundStarted(currentRoundId, block.timestamp, block.timestamp + ROUND_DURATION);
-    }
-
-    function _handleDuplicateWinners(uint32[3] memory indices) internal view {
-        // If accuracy winner equals conviction winner, they keep conviction (higher priority)
-        // For now, we accept duplicates as the off-chain process should handle promotion
-        // In production, you'd want to track second-best encrypted values
+        emit RoundStarted(currentRoundId, newRound.startTime, newRound.endTime);
+        if (rolloverPool > 0) {
+            emit RolloverCarried(currentRoundId, rolloverPool);
+            rolloverPool = 0;
+        }
     }
 
-    function _storeWinners(
+    /**
+     * @dev Order: winningNumber, convictionIdx, accuracyIdx, calibrationIdx,
+     *      then for each winner: guess, confidence, distance
+     */
+    function _finalizationHandles(
         uint256 roundId,
-        uint32[3] memory indices,
-        uint32[3] calldata guesses,
-        uint32[3] calldata confidences,
-        uint32[3] calldata distances
-    ) internal {
+        uint32[3] memory indices
+    ) internal view returns (bytes32[] memory handles) {
         Round storage round = rounds[roundId];
-        
-        // Conviction winner
-        round.winners[0] = Winner({
-            addr: participants[roundId][indices[0]].addr,
-            category: WinnerCategory.Conviction,
-            prize: 0,
-            guess: guesses[0],
-            confidence: confidences[0],
-            distance: distances[0],
-            score: uint32(guesses[0]) * uint32(confidences[0])
-        });
 
-        // Accuracy winner
-        round.winners[1] = Winner({
-            addr: participants[roundId][indices[1]].addr,
-            category: WinnerCategory.Accuracy,
-            prize: 0,
-            guess: guesses[1],
-            confidence: confidences[1],
-            distance: distances[1],
-            score: uint32(MAX_GUESS) - distances[1]
-        });
+        handles = new bytes32[](13);
+        handles[0] = FHE.toBytes32(round.encryptedWinningNumber);
+        handles[1] = FHE.toBytes32(round.bestConvictionIdx);
+        handles[2] = FHE.toBytes32(round.bestAccuracyIdx);
+        handles[3] = FHE.toBytes32(round.bestCalibrationIdx);
 
-        // Calibration winner
-        round.winners[2] = Winner({
-            addr: participants[roundId][indices[2]].addr,
-            category: WinnerCategory.Calibration,
-            prize: 0,
-            guess: guesses[2],
-            confidence: confidences[2],
-            distance: distances[2],
-            score: 0 // Calibration is about low error
-        });
+        for (uint256 i = 0; i < 3; i++) {
+            Participant storage p = participants[roundId][indices[i]];
+            handles[4 + i * 3] = FHE.toBytes32(p.encryptedGuess);
+            handles[5 + i * 3] = FHE.toBytes32(p.encryptedConfidence);
+            handles[6 + i * 3] = FHE.toBytes32(p.encryptedDistance);
+        }
+    }
+
+    /**
+     * @dev Order: convictionIdx, accuracyIdx, calibrationIdx, then one co-winner mask per category
+     */
+    function _winnerIndexHandles(Round storage round) internal view returns (bytes32[] memory handles) {
+        handles = new bytes32[](6);
+        handles[0] = FHE.toBytes32(round.bestConvictionIdx);
+        handles[1] = FHE.toBytes32(round.bestAccuracyIdx);
+        handles[2] = FHE.toBytes32(round.bestCalibrationIdx);
+        for (uint256 c = 0; c < 3; c++) {
+            handles[3 + c] = FHE.toBytes32(round.coWinnerMask[c]);
+        }
+    }
+
+    function _checkDistinctWinners(uint32[3] memory indices) internal pure {
+        if (indices[0] == indices[1] || indices[0] == indices[2] || indices[1] == indices[2]) {
+            revert DuplicateWinners();
+        }
     }
 
     function _distributePrizes(uint256 roundId) internal {
         Round storage round = rounds[roundId];
+        CoWinner[] storage coWinners = roundCoWinners[roundId];
         
-        uint256 platformFee = (round.prizePool * PLATFORM_FEE_BPS) / 10000;
-        uint256 distributablePool = round.prizePool - platformFee;
+        RoundConfig storage config = round.config;
         
-        uint256 convictionPrize = (distributablePool * CONVICTION_SHARE_BPS) / 10000;
-        uint256 accuracyPrize = (distributablePool * ACCURACY_SHARE_BPS) / 10000;
-        uint256 calibrationPrize = (distributablePool * CALIBRATION_SHARE_BPS) / 10000;
-
-        round.winners[0].prize = convictionPrize;
-        round.winners[1].prize = accuracyPrize;
-        round.winners[2].prize = calibrationPrize;
-
-        // Transfer prizes
-        (bool s1,) = round.winners[0].addr.call{value: convictionPrize}("");
-        (bool s2,) = round.winners[1].addr.call{value: accuracyPrize}("");
-        (bool s3,) = round.winners[2].addr.call{value: calibrationPrize}("");
-        (bool s4,) = treasury.call{value: platformFee}("");
+        // Only new entries pay the fee: carried-over money was charged when it entered, and sponsors
+        // fund prizes
+        uint256 entryFees = round.prizePool - round.carriedOver - round.sponsored;
+        uint256 platformFee = (entryFees * config.platformFeeBps) / BPS_DENOMINATOR;
+        uint256 feeRollover = (platformFee * config.feeRolloverBps) / BPS_DENOMINATOR;
+        uint256 distributablePool = round.prizePool - platformFee;
         
-        if (!s1 || !s2 || !s3 || !s4) revert TransferFailed();
+        uint256[3] memory categoryPrizes = [
+            (distributablePool * config.convictionShareBps) / BPS_DENOMINATOR,
+            (distributablePool * config.accuracyShareBps) / BPS_DENOMINATOR,
+            (distributablePool * config.calibrationShareBps) / BPS_DENOMINATOR
+        ];
+
+        // A category left without a valid winner rolls its prize over to the next round
+        for (uint256 c = 0; c < 3; c++) {
+            if (round.winners[c].addr == address(0)) {
+                rolloverPool += categoryPrizes[c];
+                categoryPrizes[c] = 0;
+            }
+        }
+
+        // Split each category prize evenly among its winner and co-winners.
+        // Division dust goes to the category winner.
+        uint256[3] memory shareCount = [uint256(1), 1, 1];
+        for (uint256 i = 0; i < coWinners.length; i++) {
+            shareCount[uint256(coWinners[i].category)]++;
+        }
+        for (uint256 i = 0; i < coWinners.length; i++) {
+            uint256 category = uint256(coWinners[i].category);
+            coWinners[i].prize = categoryPrizes[category] / shareCount[category];
+        }
+        for (uint256 c = 0; c < 3; c++) {
+            round.winners[c].prize =
+                categoryPrizes[c] - (categoryPrizes[c] / shareCount[c]) * (shareCount[c] - 1);
+        }
+
+        // Prizes are credited for claim(), or wrapped and paid as encrypted amounts. A pool
+        // too large for euint64 falls back to claimable credits. Either way the amounts stay
+        // recorded, since anyone can recompute them.
+        IConfidentialToken payoutToken = round.payoutToken;
+        if (address(payoutToken) != address(0)) {
+            if (distributablePool > type(uint64).max) {
+                payoutToken = IConfidentialToken(address(0));
+                round.payoutToken = payoutToken;
+            } else {
+                _wrapForPayout(payoutToken, categoryPrizes[0] + categoryPrizes[1] + categoryPrizes[2]);
+            }
+        }
+
+        for (uint256 c = 0; c < 3; c++) {
+            if (round.winners[c].addr == address(0)) continue;
+            _payPrize(payoutToken, round.winners[c].addr, round.winners[c].prize);
+        }
+        for (uint256 i = 0; i < coWinners.length; i++) {
+            _payPrize(payoutToken, coWinners[i].addr, coWinners[i].prize);
+        }
+        _credit(treasury, platformFee - feeRollover);
+        rolloverPool += feeRollover;
         
-        totalFeesCollected += platformFee;
+        totalFeesCollected += platformFee - feeRollover;
+
+        for (uint256 c = 0; c < 3; c++) {
+            if (round.winners[c].addr == address(0)) continue;
+            emit WinnerDeclared(roundId, WinnerCategory(c), round.winners[c].addr, round.winners[c].prize);
+        }
+        for (uint256 i = 0; i < coWinners.length; i++) {
+            emit WinnerDeclared(roundId, coWinners[i].category, coWinners[i].addr, coWinners[i].prize);
+        }
+    }
 
-        emit WinnerDeclared(roundId, WinnerCategory.Conviction, round.winners[0].addr, convictionPrize);
-        emit WinnerDeclared(roundId, WinnerCategory.Accuracy, round.winners[1].addr, accuracyPrize);
-        emit WinnerDeclared(roundId, WinnerCategory.Calibration, round.winners[2].addr, calibrationPrize);
+    /**
+     * @dev Take back an unclaimed prize credited at `completedAt`, returning the amount taken
+     */
+    function _expirePrize(address winner, uint256 prize, uint256 completedAt) internal returns (uint256 amount) {
+        if (prize == 0 || lastClaimedAt[winner] >= completedAt) return 0;
+
+        // Never take more than the account is still owed
+        amount = prize < claimable[winner] ? prize : claimable[winner];
+        claimable[winner] -= amount;
+        totalClaimable -= amount;
     }
 
-    receive() external payable {}
+    function _credit(address to, uint256 amount) internal {
+        claimable[to] += amount;
+        totalClaimable += amount;
+    }
+
+    function _wrapForPayout(IConfidentialToken token, uint256 amount) internal {
+        if (address(entryToken) == address(0)) {
+            token.wrap{value: amount}(address(this), amount);
+        } else {
+            entryToken.forceApprove(address(token), amount);
+            token.wrap(address(this), amount);
+        }
+    }
+
+    /**
+     * @dev Credit `amount` for claim(), or transfer it encrypted when paying confidentially.
+     *      The encrypted amount is a trivial encryption of a publicly computable value, so it
+     *      keeps the recipient's balance private but not the prize itself.
+     */
+    function _payPrize(IConfidentialToken token, address to, uint256 amount) internal {
+        if (address(token) == address(0)) {
+            _credit(to, amount);
+            return;
+        }
+
+        euint64 encryptedAmount = FHE.asEuint64(uint64(amount));
+        FHE.allowTransient(encryptedAmount, address(token));
+        token.confidentialTransfer(to, encryptedAmount);
+    }
 }
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "./PrivLottery.sol";
+
+/**
+ * @title PrivLotteryDeployer
+ * @notice Holds the PrivLottery creation code on behalf of PrivLotteryFactory
+ * @dev Embedding the creation code in the factory itself would push it past the EIP-170
+ *      contract size limit, so deployment is delegated to this contract.
+ */
+contract PrivLotteryDeployer {
+    /**
+     * @notice Deploy a PrivLottery instance and hand ownership to the caller
+     * @param treasury Recipient of the platform fee
+     * @param entryToken ERC-20 the entry fee is paid in, or address(0) for native ETH
+     * @return lottery The new instance
+     */
+    function deploy(address treasury, address entryToken) external returns (PrivLottery lottery) {
+        lottery = new PrivLottery(treasury, entryToken);
+        lottery.transferOwnership(msg.sender);
+    }
+}
@@ -0,0 +1,89 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "./PrivLottery.sol";
+import "./PrivLotteryDeployer.sol";
+
+/**
+ * @title PrivLotteryFactory
+ * @notice Deploys configured PrivLottery instances and keeps a registry of them
+ * @dev Each instance is deployed with default parameters through PrivLotteryDeployer, configured,
+ *      restarted so its first round already uses the requested config, and then handed to the
+ *      caller as owner.
+ */
+contract PrivLotteryFactory {
+    // ============ Structs ============
+    struct LotteryInfo {
+        address lottery;
+        string name;
+        address creator;
+        uint256 createdAt;
+    }
+
+    // ============ State Variables ============
+    PrivLotteryDeployer public immutable deployer;
+    LotteryInfo[] internal lotteries;
+    mapping(address => bool) public isLottery;
+
+    // ============ Events ============
+    event LotteryCreated(uint256 indexed lotteryId, address indexed lottery, address indexed creator, string name);
+
+    // ============ Errors ============
+    error LotteryNotFound();
+
+    // ============ Constructor ============
+    constructor(address _deployer) {
+        deployer = PrivLotteryDeployer(_deployer);
+    }
+
+    // ============ External Functions ============
+
+    /**
+     * @notice Deploy a new lottery instance and register it
+     * @param name Display name shown in the lobby
+     * @param treasury Recipient of the platform fee
+     * @param entryToken ERC-20 the entry fee is paid in, or address(0) for native ETH
+     * @param config Round parameters, applied from the first round
+     * @param tiePolicy How equal scores are resolved
+     * @return lottery Address of the new instance, owned by the caller
+     */
+    function createLottery(
+        string calldata name,
+        address treasury,
+        address entryToken,
+        PrivLottery.RoundConfig calldata config,
+        PrivLottery.TiePolicy tiePolicy
+    ) external returns (address lottery) {
+        PrivLottery instance = deployer.deploy(treasury, entryToken);
+        instance.setRoundConfig(config);
+        instance.setTiePolicy(tiePolicy);
+        instance.applyConfigToCurrentRound();
+        instance.transferOwnership(msg.sender);
+
+        lottery = address(instance);
+        lotteries.push(LotteryInfo({
+            lottery: lottery,
+            name: name,
+            creator: msg.sender,
+            createdAt: block.timestamp
+        }));
+        isLottery[lottery] = true;
+
+        emit LotteryCreated(lotteries.length - 1, lottery, msg.sender, name);
+    }
+
+    // ============ View Functions ============
+
+    function lotteryCount() external view returns (uint256) {
+        return lotteries.length;
+    }
+
+    function getLottery(uint256 lotteryId) external view returns (LotteryInfo memory) {
+        if (lotteryId >= lotteries.length) revert LotteryNotFound();
+        return lotteries[lotteryId];
+    }
+
+    function getLotteries() external view returns (LotteryInfo[] memory) {
+        return lotteries;
+    }
+}
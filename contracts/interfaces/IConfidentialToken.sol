@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title IConfidentialToken
+ * @notice Encrypted-balance token wrapping a public asset, as used for confidential prize payouts
+ * @dev The subset of an ERC-7984 wrapper the lottery relies on. Amounts are 1:1 with the
+ *      underlying asset's base units.
+ */
+interface IConfidentialToken {
+    /// @notice The wrapped asset, or address(0) for native ETH
+    function underlying() external view returns (address);
+
+    /// @notice Lock `amount` of the underlying asset and credit it to `to` as an encrypted balance
+    function wrap(address to, uint256 amount) external payable;
+
+    /// @notice Move an encrypted amount the caller is allowed to use from its balance to `to`
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred);
+
+    /// @notice Encrypted balance handle, decryptable by the account itself
+    function confidentialBalanceOf(address account) external view returns (euint64);
+}
@@ -0,0 +1,433 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "../PrivLottery.sol";
+
+/**
+ * @title LotteryScoring
+ * @notice Encrypted scoring, ranking and winner resolution for PrivLottery
+ * @dev A linked library: its external functions run via DELEGATECALL on the lottery's own
+ *      storage, so FHE ACL grants (FHE.allowThis) still go to the lottery. Split out to keep
+ *      PrivLottery under the contract size limit.
+ */
+library LotteryScoring {
+    uint32 internal constant MAX_GUESS = 1023;
+    uint32 internal constant MAX_CONFIDENCE = 100;
+
+    // Ranking keys append a 7-bit tiebreak below the score, so every key is unique.
+    // This caps a round at TIE_BREAK_MAX + 1 participants, which also lets a euint128
+    // bitmask hold any set of participant indices.
+    uint8 internal constant TIE_BREAK_BITS = 7;
+    uint32 internal constant TIE_BREAK_MAX = 127;
+
+    /**
+     * @notice Reset the encrypted rankings of a round entering settlement
+     * @dev Slots are treated as empty until enough participants are scored, so the
+     *      placeholder values never compete with real scores
+     */
+    function initRankings(PrivLottery.Round storage round) external {
+        euint32 zero = FHE.asEuint32(0);
+        FHE.allowThis(zero);
+        for (uint256 k = 0; k < 3; k++) {
+            round.convictionRankIdx[k] = zero;
+            round.convictionRankScore[k] = zero;
+            round.accuracyRankIdx[k] = zero;
+            round.accuracyRankDistance[k] = zero;
+            round.calibrationRankIdx[k] = zero;
+            round.calibrationRankError[k] = zero;
+        }
+
+        if (round.tiePolicy == PrivLottery.TiePolicy.SplitEvenly) {
+            euint128 empty = FHE.asEuint128(0);
+            FHE.allowThis(empty);
+            for (uint256 k = 0; k < 3; k++) {
+                round.convictionTieMask[k] = empty;
+                round.accuracyTieMask[k] = empty;
+                round.calibrationTieMask[k] = empty;
+            }
+        }
+
+        // Drawn after entries close, so nobody can pick an index that wins ties
+        if (round.tiePolicy == PrivLottery.TiePolicy.RandomTiebreak) {
+            round.tieBreakSeed = FHE.asEuint32(FHE.randEuint8(uint8(TIE_BREAK_MAX) + 1));
+            FHE.allowThis(round.tieBreakSeed);
+        }
+    }
+
+    /**
+     * @notice Compute a participant's encrypted scores and insert them into the rankings
+     * @param round The settling round
+     * @param p The participant, not yet scored
+     * @param index The participant's index in the round
+     */
+    function scoreParticipant(
+        PrivLottery.Round storage round,
+        PrivLottery.Participant storage p,
+        uint32 index
+    ) external {
+        euint32 winningNum = round.encryptedWinningNumber;
+
+        // Compute encrypted distance: |guess - winningNumber|
+        // Since we can't know which is larger, compute both and select
+        ebool guessIsLarger = FHE.ge(p.encryptedGuess, winningNum);
+        euint32 diff1 = FHE.sub(p.encryptedGuess, winningNum);
+        euint32 diff2 = FHE.sub(winningNum, p.encryptedGuess);
+        euint32 distance = FHE.select(guessIsLarger, diff1, diff2);
+
+        // Raw score: MAX_GUESS - distance (higher is better)
+        euint32 rawScore = FHE.sub(FHE.asEuint32(MAX_GUESS), distance);
+
+        // Conviction score: rawScore * confidence / 100
+        // Simplified: (rawScore * confidence) to avoid division issues
+        euint32 convictionScore = FHE.mul(rawScore, p.encryptedConfidence);
+
+        // Accuracy percentage: (rawScore * 100) / MAX_GUESS
+        // Simplified for FHE: rawScore * 100 / 1024 ≈ rawScore / 10
+        // Actually, let's use: accuracyPct = rawScore * 100 / MAX_GUESS
+        // Since MAX_GUESS = 1023 ≈ 1024, we can approximate
+        // For calibration: |confidence - (rawScore * 100 / 1023)|
+        // Simplified: store rawScore, compute calibration as |confidence*10 - rawScore|
+        euint32 scaledRawScore = FHE.mul(rawScore, FHE.asEuint32(100));
+        euint32 normalizedScore = FHE.div(scaledRawScore, MAX_GUESS);
+
+        // Calibration error: |confidence - normalizedScore|
+        ebool confIsLarger = FHE.ge(p.encryptedConfidence, normalizedScore);
+        euint32 calDiff1 = FHE.sub(p.encryptedConfidence, normalizedScore);
+        euint32 calDiff2 = FHE.sub(normalizedScore, p.encryptedConfidence);
+        euint32 calibrationError = FHE.select(confIsLarger, calDiff1, calDiff2);
+
+        // An out-of-range entry gets scores no valid entry can reach: distance MAX_GUESS + 1,
+        // calibration error MAX_CONFIDENCE + 1 and conviction 0. Valid conviction scores rank
+        // shifted up by one, so even a zero-confidence valid entry ranks above it.
+        ebool valid = p.encryptedValid;
+        distance = FHE.select(valid, distance, FHE.asEuint32(MAX_GUESS + 1));
+        calibrationError = FHE.select(valid, calibrationError, FHE.asEuint32(MAX_CONFIDENCE + 1));
+        euint32 convictionRank = FHE.select(valid, FHE.add(convictionScore, 1), FHE.asEuint32(0));
+        convictionScore = FHE.select(valid, convictionScore, FHE.asEuint32(0));
+
+        // Store encrypted scores
+        p.encryptedDistance = distance;
+        p.encryptedConvictionScore = convictionScore;
+        p.encryptedCalibrationError = calibrationError;
+        p.scoresComputed = true;
+
+        FHE.allowThis(distance);
+        FHE.allowThis(convictionScore);
+        FHE.allowThis(calibrationError);
+
+        // Each participant may decrypt only their own scores
+        FHE.allow(distance, p.addr);
+        FHE.allow(convictionScore, p.addr);
+        FHE.allow(calibrationError, p.addr);
+
+        // Update encrypted top-3 rankings
+        euint32 currentIdx = FHE.asEuint32(index);
+        uint256 filled = round.scoresComputedCount;
+
+        // Only SplitEvenly needs to know every entry tied with a winner
+        bool splitTies = round.tiePolicy == PrivLottery.TiePolicy.SplitEvenly;
+
+        // Conviction (higher is better)
+        _insertRanked(
+            round.convictionRankIdx,
+            round.convictionRankScore,
+            round.convictionTieMask,
+            currentIdx,
+            _rankKey(round, convictionRank, index, true),
+            index,
+            filled,
+            splitTies ? 1 : 0,
+            true
+        );
+        // Accuracy (lower distance is better)
+        _insertRanked(
+            round.accuracyRankIdx,
+            round.accuracyRankDistance,
+            round.accuracyTieMask,
+            currentIdx,
+            _rankKey(round, distance, index, false),
+            index,
+            filled,
+            splitTies ? 2 : 0,
+            false
+        );
+        // Calibration (lower error is better)
+        _insertRanked(
+            round.calibrationRankIdx,
+            round.calibrationRankError,
+            round.calibrationTieMask,
+            currentIdx,
+            _rankKey(round, calibrationError, index, false),
+            index,
+            filled,
+            splitTies ? 3 : 0,
+            false
+        );
+
+        round.scoresComputedCount++;
+    }
+
+    /**
+     * @notice Pick three distinct winners from the rankings, in priority order
+     *      Conviction > Accuracy > Calibration. The accuracy leader is replaced by the
+     *      runner-up if it already won conviction; the calibration winner is the best-ranked
+     *      entry that won neither. With at least 3 participants all three rankings are full,
+     *      so a distinct winner always exists.
+     */
+    function resolveDistinctWinners(PrivLottery.Round storage round) external {
+        euint32 convictionWinner = round.convictionRankIdx[0];
+
+        euint32 accuracyWinner = FHE.select(
+            FHE.eq(round.accuracyRankIdx[0], convictionWinner),
+            round.accuracyRankIdx[1],
+            round.accuracyRankIdx[0]
+        );
+
+        ebool firstIsFree = FHE.and(
+            FHE.ne(round.calibrationRankIdx[0], convictionWinner),
+            FHE.ne(round.calibrationRankIdx[0], accuracyWinner)
+        );
+        ebool secondIsFree = FHE.and(
+            FHE.ne(round.calibrationRankIdx[1], convictionWinner),
+            FHE.ne(round.calibrationRankIdx[1], accuracyWinner)
+        );
+        euint32 calibrationWinner = FHE.select(
+            firstIsFree,
+            round.calibrationRankIdx[0],
+            FHE.select(secondIsFree, round.calibrationRankIdx[1], round.calibrationRankIdx[2])
+        );
+
+        round.bestConvictionIdx = convictionWinner;
+        round.bestAccuracyIdx = accuracyWinner;
+        round.bestCalibrationIdx = calibrationWinner;
+
+        FHE.allowThis(round.bestConvictionIdx);
+        FHE.allowThis(round.bestAccuracyIdx);
+        FHE.allowThis(round.bestCalibrationIdx);
+
+        if (round.tiePolicy == PrivLottery.TiePolicy.SplitEvenly) {
+            euint128 taken = _indexBit(convictionWinner);
+            _resolveCoWinners(round, 0, round.convictionRankIdx, round.convictionTieMask, convictionWinner, taken);
+            taken = FHE.or(taken, _indexBit(accuracyWinner));
+            _resolveCoWinners(round, 1, round.accuracyRankIdx, round.accuracyTieMask, accuracyWinner, taken);
+            taken = FHE.or(taken, _indexBit(calibrationWinner));
+            _resolveCoWinners(round, 2, round.calibrationRankIdx, round.calibrationTieMask, calibrationWinner, taken);
+        } else {
+            euint128 none = FHE.asEuint128(0);
+            FHE.allowThis(none);
+            for (uint256 c = 0; c < 3; c++) {
+                round.coWinnerMask[c] = none;
+            }
+        }
+    }
+
+    /**
+     * @notice Make the winning number and the resolved winner indices publicly decryptable
+     */
+    function publishWinnerIndices(PrivLottery.Round storage round) external {
+        FHE.makePubliclyDecryptable(round.encryptedWinningNumber);
+        FHE.makePubliclyDecryptable(round.bestConvictionIdx);
+        FHE.makePubliclyDecryptable(round.bestAccuracyIdx);
+        FHE.makePubliclyDecryptable(round.bestCalibrationIdx);
+        for (uint256 c = 0; c < 3; c++) {
+            FHE.makePubliclyDecryptable(round.coWinnerMask[c]);
+        }
+    }
+
+    /**
+     * @notice Record the proven winners and co-winners of a finalized round
+     * @dev Scores follow the same formulas as computeScoresBatch (see shared/scoring.ts);
+     *      unchecked mirrors the wrapping arithmetic of the encrypted computation. An invalid
+     *      entry (out-of-range input, scored at distance MAX_GUESS + 1) only places when a
+     *      category runs out of valid entries. Such a category is left without a winner
+     *      (zero address) and its prize rolls over. Entries tied with an invalid winner are
+     *      invalid too, so the category gets no co-winners either. Co-winners are pushed
+     *      per category in ascending index order.
+     * @param entries The round's participants, by index
+     * @param indices Winner indices per category
+     */
+    function storeWinners(
+        PrivLottery.Round storage round,
+        mapping(uint256 => PrivLottery.Participant) storage entries,
+        PrivLottery.CoWinner[] storage coWinners,
+        uint32[3] memory indices,
+        uint32[3] memory guesses,
+        uint32[3] memory confidences,
+        uint32[3] memory distances
+    ) external {
+        for (uint256 c = 0; c < 3; c++) {
+            PrivLottery.Winner storage winner = round.winners[c];
+            winner.category = PrivLottery.WinnerCategory(c);
+            if (distances[c] > MAX_GUESS) continue;
+
+            winner.addr = entries[indices[c]].addr;
+            winner.guess = guesses[c];
+            winner.confidence = confidences[c];
+            winner.distance = distances[c];
+            unchecked {
+                uint32 accuracy = MAX_GUESS - distances[c];
+                if (c == 0) {
+                    winner.score = accuracy * confidences[c]; // Conviction: rawScore * confidence
+                } else if (c == 1) {
+                    winner.score = accuracy; // Accuracy: rawScore
+                } else {
+                    winner.score = _calibrationError(distances[c], confidences[c]); // Lower is better
+                }
+            }
+        }
+
+        for (uint256 c = 0; c < 3; c++) {
+            if (round.winners[c].addr == address(0)) continue;
+            uint128 mask = round.revealedCoWinnerMasks[c];
+            for (uint256 idx = 0; mask != 0; idx++) {
+                if (mask & 1 == 1) {
+                    coWinners.push(PrivLottery.CoWinner({
+                        addr: entries[idx].addr,
+                        category: PrivLottery.WinnerCategory(c),
+                        prize: 0
+                    }));
+                }
+                mask >>= 1;
+            }
+        }
+    }
+
+    /**
+     * @dev Take every entry tied with a category winner from the tie mask of the winner's
+     *      slot, which is always a tracked one, minus the winner and higher-priority winners
+     *      (`taken`). Co-winners share the prize but stay eligible for lower-priority categories.
+     */
+    function _resolveCoWinners(
+        PrivLottery.Round storage round,
+        uint256 category,
+        euint32[3] storage rankIdx,
+        euint128[3] storage tieMask,
+        euint32 winner,
+        euint128 taken
+    ) private {
+        euint128 tied = FHE.select(
+            FHE.eq(rankIdx[0], winner),
+            tieMask[0],
+            FHE.select(FHE.eq(rankIdx[1], winner), tieMask[1], tieMask[2])
+        );
+        euint128 mask = FHE.and(tied, FHE.not(FHE.or(taken, _indexBit(winner))));
+
+        round.coWinnerMask[category] = mask;
+        FHE.allowThis(mask);
+    }
+
+    /**
+     * @dev The bitmask holding only an encrypted participant index
+     */
+    function _indexBit(euint32 index) private returns (euint128) {
+        return FHE.shl(FHE.asEuint128(1), FHE.asEuint8(index));
+    }
+
+    /**
+     * @dev Build a unique ranking key: score << TIE_BREAK_BITS | tiebreak. Among equal scores
+     *      the lower tiebreak ranks first: the participant index (earliest submission) or,
+     *      for RandomTiebreak, the index XOR the round's hidden seed. For higher-is-better
+     *      scores the tiebreak is inverted (TIE_BREAK_MAX - t, which equals t XOR TIE_BREAK_MAX).
+     */
+    function _rankKey(
+        PrivLottery.Round storage round,
+        euint32 score,
+        uint32 index,
+        bool higherIsBetter
+    ) private returns (euint32) {
+        uint32 tieBreak = higherIsBetter ? TIE_BREAK_MAX - index : index;
+        euint32 shifted = FHE.shl(score, TIE_BREAK_BITS);
+        if (round.tiePolicy == PrivLottery.TiePolicy.RandomTiebreak) {
+            return FHE.add(shifted, FHE.xor(round.tieBreakSeed, tieBreak));
+        }
+        return FHE.add(shifted, tieBreak);
+    }
+
+    /**
+     * @dev Insert an entry into an encrypted top-3 ranking, shifting worse entries down.
+     *      `filled` is the (public) number of entries scored so far; slots at or beyond it
+     *      are empty and always beaten. The first `tieSlots` slots also keep their tie masks
+     *      up to date, moving them along with the slots: only the slots a category winner can
+     *      be resolved from (Conviction 1, Accuracy 2, Calibration 3) need them.
+     */
+    function _insertRanked(
+        euint32[3] storage rankIdx,
+        euint32[3] storage rankValue,
+        euint128[3] storage tieMask,
+        euint32 idx,
+        euint32 value,
+        uint32 index,
+        uint256 filled,
+        uint256 tieSlots,
+        bool higherIsBetter
+    ) private {
+        ebool[3] memory beats;
+        for (uint256 k = 0; k < 3; k++) {
+            if (k >= filled) {
+                beats[k] = FHE.asEbool(true);
+            } else {
+                beats[k] = higherIsBetter ? FHE.gt(value, rankValue[k]) : FHE.lt(value, rankValue[k]);
+            }
+        }
+
+        euint128 entryMask;
+        if (tieSlots > 0) {
+            entryMask = _recordTies(tieMask, rankValue, value, index, filled < tieSlots ? filled : tieSlots);
+        }
+
+        // Work bottom-up so each slot reads the previous values of the slot above it
+        rankIdx[2] = FHE.select(beats[1], rankIdx[1], FHE.select(beats[2], idx, rankIdx[2]));
+        rankValue[2] = FHE.select(beats[1], rankValue[1], FHE.select(beats[2], value, rankValue[2]));
+        rankIdx[1] = FHE.select(beats[0], rankIdx[0], FHE.select(beats[1], idx, rankIdx[1]));
+        rankValue[1] = FHE.select(beats[0], rankValue[0], FHE.select(beats[1], value, rankValue[1]));
+        rankIdx[0] = FHE.select(beats[0], idx, rankIdx[0]);
+        rankValue[0] = FHE.select(beats[0], value, rankValue[0]);
+
+        for (uint256 k = 0; k < 3; k++) {
+            FHE.allowThis(rankIdx[k]);
+            FHE.allowThis(rankValue[k]);
+        }
+
+        // Same bottom-up shift for the tracked tie masks
+        for (uint256 k = tieSlots; k > 0; k--) {
+            uint256 slot = k - 1;
+            euint128 mask = FHE.select(beats[slot], entryMask, tieMask[slot]);
+            tieMask[slot] = slot == 0 ? mask : FHE.select(beats[slot - 1], tieMask[slot - 1], mask);
+            FHE.allowThis(tieMask[slot]);
+        }
+    }
+
+    /**
+     * @dev Add an entry to the tie masks of the first `slots` ranked slots sharing its score,
+     *      and return the mask its own slot gets if it enters them. A tracked slot's mask
+     *      holds every scored entry with that slot's score, ranked or not: slots only ever
+     *      improve, so an earlier entry with the same score that was pushed past the last
+     *      tracked slot left behind a tracked slot sharing it.
+     */
+    function _recordTies(
+        euint128[3] storage tieMask,
+        euint32[3] storage rankValue,
+        euint32 value,
+        uint32 index,
+        uint256 slots
+    ) private returns (euint128 entryMask) {
+        euint32 score = FHE.shr(value, TIE_BREAK_BITS);
+        entryMask = FHE.asEuint128(uint128(1) << index);
+        for (uint256 k = 0; k < slots; k++) {
+            ebool tied = FHE.eq(FHE.shr(rankValue[k], TIE_BREAK_BITS), score);
+            tieMask[k] = FHE.or(tieMask[k], FHE.shl(FHE.asEuint128(tied), uint8(index)));
+            entryMask = FHE.select(tied, tieMask[k], entryMask);
+        }
+    }
+
+    /**
+     * @dev Cleartext calibration error: |confidence - (MAX_GUESS - distance) * 100 / MAX_GUESS|
+     */
+    function _calibrationError(uint32 distance, uint32 confidence) private pure returns (uint32) {
+        unchecked {
+            uint32 normalizedScore = ((MAX_GUESS - distance) * 100) / MAX_GUESS;
+            return confidence >= normalizedScore ? confidence - normalizedScore : normalizedScore - confidence;
+        }
+    }
+}
@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "@fhevm/solidity/config/ZamaConfig.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "../interfaces/IConfidentialToken.sol";
+
+/**
+ * @title MockConfidentialToken
+ * @notice Minimal encrypted-balance wrapper of ETH or an ERC-20, for confidential payouts in tests
+ * @dev Transfers move min(amount, balance) under encryption, so an overdraft sends nothing
+ *      instead of reverting and leaking that the balance was short.
+ */
+contract MockConfidentialToken is ZamaEthereumConfig, IConfidentialToken {
+    address public immutable underlying;
+    mapping(address => euint64) private _balances;
+
+    event Wrapped(address indexed to, uint256 amount);
+    event ConfidentialTransfer(address indexed from, address indexed to);
+
+    error IncorrectWrapValue();
+    error AmountNotAllowed();
+
+    constructor(address _underlying) {
+        underlying = _underlying;
+    }
+
+    function wrap(address to, uint256 amount) external payable {
+        if (underlying == address(0)) {
+            if (msg.value != amount) revert IncorrectWrapValue();
+        } else {
+            if (msg.value != 0) revert IncorrectWrapValue();
+            require(IERC20(underlying).transferFrom(msg.sender, address(this), amount), "Transfer failed");
+        }
+
+        _credit(to, FHE.asEuint64(uint64(amount)));
+        emit Wrapped(to, amount);
+    }
+
+    function confidentialTransfer(address to, euint64 amount) external returns (euint64 transferred) {
+        if (!FHE.isAllowed(amount, msg.sender)) revert AmountNotAllowed();
+
+        euint64 balance = _balances[msg.sender];
+        transferred = FHE.select(FHE.le(amount, balance), amount, FHE.asEuint64(0));
+
+        _balances[msg.sender] = FHE.sub(balance, transferred);
+        FHE.allowThis(_balances[msg.sender]);
+        FHE.allow(_balances[msg.sender], msg.sender);
+
+        _credit(to, transferred);
+
+        FHE.allowTransient(transferred, msg.sender);
+        emit ConfidentialTransfer(msg.sender, to);
+    }
+
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _balances[account];
+    }
+
+    function _credit(address to, euint64 amount) internal {
+        _balances[to] = FHE.add(_balances[to], amount);
+        FHE.allowThis(_balances[to]);
+        FHE.allow(_balances[to], to);
+    }
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/**
+ * @title MockERC20Permit
+ * @notice Freely mintable stablecoin-like token with EIP-2612 permit, for token-priced rounds in tests
+ */
+contract MockERC20Permit is ERC20, ERC20Permit {
+    constructor() ERC20("Mock USD", "mUSD") ERC20Permit("Mock USD") {}
+
+    function decimals() public pure override returns (uint8) {
+        return 6;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import "@fhevm/solidity/lib/FHE.sol";
+import "../PrivLottery.sol";
+
+/**
+ * @title RejectingReceiver
+ * @notice Test participant that refuses incoming ETH until told otherwise
+ * @dev Used to check that a contract wallet rejecting transfers cannot block settlement
+ */
+contract RejectingReceiver {
+    PrivLottery public immutable lottery;
+    bool public accepting;
+
+    constructor(address payable _lottery) {
+        lottery = PrivLottery(_lottery);
+    }
+
+    function enter(
+        externalEuint32 encryptedGuess,
+        externalEuint32 encryptedConfidence,
+        bytes calldata inputProof
+    ) external payable {
+        lottery.submitPrediction{value: msg.value}(encryptedGuess, encryptedConfidence, inputProof);
+    }
+
+    function claim() external {
+        lottery.claim();
+    }
+
+    function setAccepting(bool _accepting) external {
+        accepting = _accepting;
+    }
+
+    receive() external payable {
+        require(accepting, "ETH rejected");
+    }
+}
@@ -1,29 +1,45 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
+import { printFrontendEnv } from "../shared/networks";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
 
 const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
-  const { deployments, getNamedAccounts } = hre;
+  const { deployments, getNamedAccounts, getChainId } = hre;
   const { deploy } = deployments;
   const { deployer } = await getNamedAccounts();
 
   // Get treasury from env, fallback to deployer if not set
   const treasury = process.env.TREASURY_ADDRESS || deployer;
 
-  if (!treasury || treasury === "0x0000000000000000000000000000000000000000") {
+  if (!treasury || treasury === ZERO_ADDRESS) {
     throw new Error("TREASURY_ADDRESS must be set in .env file");
   }
 
+  // Optional ERC-20 for entry fees; unset for native ETH
+  const entryToken = process.env.ENTRY_TOKEN_ADDRESS || ZERO_ADDRESS;
+
   console.log("Deploying PrivLottery with deployer:", deployer);
   console.log("Treasury address:", treasury);
+  console.log("Entry token:", entryToken === ZERO_ADDRESS ? "native ETH" : entryToken);
+
+  // The scoring engine is a linked library, deployed once and shared
+  const scoring = await deploy("LotteryScoring", {
+    from: deployer,
+    log: true,
+    autoMine: true,
+  });
 
   const privLottery = await deploy("PrivLottery", {
     from: deployer,
-    args: [treasury],
+    args: [treasury, entryToken],
+    libraries: { LotteryScoring: scoring.address },
     log: true,
     autoMine: true,
   });
 
   console.log("PrivLottery deployed to:", privLottery.address);
+  printFrontendEnv(Number(await getChainId()), { NEXT_PUBLIC_CONTRACT_ADDRESS: privLottery.address });
 };
 
 export default func;
@@ -0,0 +1,109 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DeployFunction } from "hardhat-deploy/types";
+import { ethers } from "ethers";
+import { printFrontendEnv } from "../shared/networks";
+
+// Instances created on first deployment so the lobby is not empty
+const PRESETS = [
+  {
+    name: "Hourly Quick Pick",
+    config: {
+      duration: 60 * 60,
+      entryPrice: ethers.parseEther("0.0005"),
+      maxParticipants: 50,
+      maxEntriesPerAddress: 1,
+      extensionDuration: 15 * 60,
+      maxExtensions: 2,
+      claimWindow: 30 * 24 * 60 * 60,
+      feeRolloverBps: 5000,
+      platformFeeBps: 100,
+      convictionShareBps: 5000,
+      accuracyShareBps: 3000,
+      calibrationShareBps: 2000,
+    },
+    tiePolicy: 0, // EarliestSubmission
+  },
+  {
+    name: "Daily High Stakes",
+    config: {
+      duration: 24 * 60 * 60,
+      entryPrice: ethers.parseEther("0.01"),
+      maxParticipants: 128,
+      maxEntriesPerAddress: 5,
+      extensionDuration: 6 * 60 * 60,
+      maxExtensions: 1,
+      claimWindow: 30 * 24 * 60 * 60,
+      feeRolloverBps: 5000,
+      platformFeeBps: 200,
+      convictionShareBps: 5000,
+      accuracyShareBps: 3000,
+      calibrationShareBps: 2000,
+    },
+    tiePolicy: 1, // SplitEvenly
+  },
+];
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, getNamedAccounts } = hre;
+  const { deploy, execute, read } = deployments;
+  const { deployer } = await getNamedAccounts();
+
+  const treasury = process.env.TREASURY_ADDRESS || deployer;
+
+  if (!treasury || treasury === "0x0000000000000000000000000000000000000000") {
+    throw new Error("TREASURY_ADDRESS must be set in .env file");
+  }
+
+  console.log("Deploying PrivLotteryFactory with deployer:", deployer);
+
+  const scoring = await deploy("LotteryScoring", {
+    from: deployer,
+    log: true,
+    autoMine: true,
+  });
+
+  const lotteryDeployer = await deploy("PrivLotteryDeployer", {
+    from: deployer,
+    libraries: { LotteryScoring: scoring.address },
+    log: true,
+    autoMine: true,
+  });
+
+  const factory = await deploy("PrivLotteryFactory", {
+    from: deployer,
+    args: [lotteryDeployer.address],
+    log: true,
+    autoMine: true,
+  });
+
+  console.log("PrivLotteryFactory deployed to:", factory.address);
+
+  const count: bigint = await read("PrivLotteryFactory", "lotteryCount");
+  if (count > 0n) {
+    console.log(`Factory already has ${count} lotteries, skipping presets`);
+    return;
+  }
+
+  for (const preset of PRESETS) {
+    await execute(
+      "PrivLotteryFactory",
+      { from: deployer, log: true, autoMine: true },
+      "createLottery",
+      preset.name,
+      treasury,
+      ethers.ZeroAddress,
+      preset.config,
+      preset.tiePolicy
+    );
+  }
+
+  const lotteries = await read("PrivLotteryFactory", "getLotteries");
+  for (const lottery of lotteries) {
+    console.log(`  ${lottery.name}: ${lottery.lottery}`);
+  }
+
+  printFrontendEnv(Number(await hre.getChainId()), { NEXT_PUBLIC_FACTORY_ADDRESS: factory.address });
+};
+
+export default func;
+func.tags = ["PrivLotteryFactory"];
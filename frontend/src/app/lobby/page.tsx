@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { useWallet } from '@/hooks/useWallet';
+import { useLobby, type LobbyEntry } from '@/hooks/useLobby';
+import { RoundStatus } from '@/hooks/useLottery';
+import { FACTORY_ADDRESS, TIE_POLICIES } from '@/lib/constants';
+import { formatAddress, formatAmount, formatTimeRemaining } from '@/lib/utils';
+import { Clock, Users, Coins, ChevronRight, LayoutGrid, Loader2 } from 'lucide-react';
+
+const STATUS_LABELS: Record<RoundStatus, { label: string; className: string }> = {
+  [RoundStatus.Active]: { label: 'Active', className: 'bg-primary-500/20 text-primary-400' },
+  [RoundStatus.Settling]: { label: 'Settling', className: 'bg-blue-500/20 text-blue-400' },
+  [RoundStatus.Completed]: { label: 'Completed', className: 'bg-green-500/20 text-green-400' },
+  [RoundStatus.Cancelled]: { label: 'Cancelled', className: 'bg-red-500/20 text-red-400' },
+};
+
+function LotteryCard({ entry, now }: { entry: LobbyEntry; now: number }) {
+  const round = entry.currentRound;
+  const remaining = round ? Math.max(0, Number(round.endTime) - now) : 0;
+  const status = round
+    ? round.status === RoundStatus.Active && remaining === 0
+      ? { label: 'Ready to Settle', className: 'bg-orange-500/20 text-orange-400' }
+      : STATUS_LABELS[round.status]
+    : null;
+
+  return (
+    <Link
+      href={`/lottery/${entry.address}`}
+      className="block bg-dark-900 border border-dark-700 hover:border-primary-500/50 rounded-xl p-6 transition-colors"
+    >
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-lg font-semibold text-white">{entry.name}</h2>
+          <p className="text-xs text-dark-500 font-mono">{formatAddress(entry.address)}</p>
+        </div>
+        {status && (
+          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+            {status.label}
+          </span>
+        )}
+      </div>
+
+      {round ? (
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          <div className="bg-dark-800 rounded-lg p-3">
+            <div className="flex items-center gap-1 text-dark-400 text-xs mb-1">
+              <Clock className="w-3 h-3" /> Round #{round.roundId.toString()}
+            </div>
+            <p className="text-sm font-mono text-white">{formatTimeRemaining(remaining)}</p>
+          </div>
+          <div className="bg-dark-800 rounded-lg p-3">
+            <div className="flex items-center gap-1 text-dark-400 text-xs mb-1">
+              <Users className="w-3 h-3" /> Players
+            </div>
+            <p className="text-sm font-mono text-white">
+              {round.participantCount.toString()}/{round.config.maxParticipants.toString()}
+            </p>
+          </div>
+          <div className="bg-dark-800 rounded-lg p-3">
+            <div className="flex items-center gap-1 text-dark-400 text-xs mb-1">
+              <Coins className="w-3 h-3" /> Pool
+            </div>
+            <p className="text-sm font-mono text-primary-400">{formatAmount(round.prizePool, entry.asset)}</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-dark-400 mb-4">Round data unavailable.</p>
+      )}
+
+      <div className="flex items-center justify-between text-xs text-dark-400">
+        <span>
+          {round && `${formatAmount(round.config.entryPrice, entry.asset)} entry • ${TIE_POLICIES[round.tiePolicy]?.name}`}
+        </span>
+        <span className="flex items-center gap-1 text-primary-400">
+          Open <ChevronRight className="w-3 h-3" />
+        </span>
+      </div>
+    </Link>
+  );
+}
+
+export default function Lobby() {
+  const wallet = useWallet();
+  const lobby = useLobby(wallet.signer);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-dark-950">
+      <Header
+        address={wallet.address}
+        isConnected={wallet.isConnected}
+        isConnecting={wallet.isConnecting}
+        isWrongNetwork={wallet.isWrongNetwork}
+        wallets={wallet.wallets}
+        activeWallet={wallet.wallet}
+        onConnect={wallet.connect}
+        onDisconnect={wallet.disconnect}
+      />
+
+      <main className="max-w-6xl mx-auto px-4 py-8">
+        <div className="text-center mb-12">
+          <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+            Lottery <span className="text-primary-400">Lobby</span>
+          </h1>
+          <p className="text-lg text-dark-400 max-w-2xl mx-auto">
+            Every game deployed through the lottery factory, each with its own entry price,
+            schedule and prize split.
+          </p>
+        </div>
+
+        {!FACTORY_ADDRESS ? (
+          <p className="text-center text-sm text-dark-400">Factory address not configured.</p>
+        ) : !lobby.factory ? (
+          <p className="text-center text-sm text-dark-400">Connect your wallet to load the lotteries.</p>
+        ) : lobby.isLoading && lobby.lotteries.length === 0 ? (
+          <div className="flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-primary-400" />
+          </div>
+        ) : lobby.lotteries.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 text-dark-400">
+            <LayoutGrid className="w-8 h-8" />
+            <p className="text-sm">No lotteries have been created yet.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {lobby.lotteries.map((entry) => (
+              <LotteryCard key={entry.address} entry={entry} now={now} />
+            ))}
+          </div>
+        )}
+
+        {(wallet.error || lobby.error) && (
+          <div className="mt-6 bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+            <p className="text-red-400 text-sm">{wallet.error || lobby.error}</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { LotteryView } from '@/components/LotteryView';
+
+export default function LotteryPage() {
+  const { address } = useParams<{ address: string }>();
+  return <LotteryView contractAddress={address} showLobbyLink />;
+}
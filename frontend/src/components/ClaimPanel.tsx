@@ -0,0 +1,61 @@
+'use client';
+
+import { useState } from 'react';
+import { Wallet, Loader2, CheckCircle2 } from 'lucide-react';
+import { formatAmount } from '@/lib/utils';
+import type { PaymentAsset } from '@/lib/constants';
+
+interface ClaimPanelProps {
+  isConnected: boolean;
+  claimable: bigint;
+  asset: PaymentAsset;
+  isLoading: boolean;
+  onClaim: () => Promise<boolean>;
+}
+
+export function ClaimPanel({ isConnected, claimable, asset, isLoading, onClaim }: ClaimPanelProps) {
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [claimed, setClaimed] = useState(false);
+
+  if (!isConnected || (claimable === BigInt(0) && !claimed)) return null;
+
+  const handleClaim = async () => {
+    setIsClaiming(true);
+    try {
+      setClaimed(await onClaim());
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  return (
+    <div className="bg-primary-500/10 border border-primary-500/30 rounded-xl p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Wallet className="w-5 h-5 text-primary-400" />
+        <h2 className="text-lg font-semibold text-white">Your Balance</h2>
+      </div>
+
+      {claimable > BigInt(0) ? (
+        <>
+          <p className="text-sm text-dark-400 mb-4">
+            Prizes and refunds are credited to you and withdrawn whenever you like.
+          </p>
+          <p className="text-3xl font-mono font-bold text-primary-400 mb-4">{formatAmount(claimable, asset)}</p>
+          <button
+            onClick={handleClaim}
+            disabled={isClaiming || isLoading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-primary-500 hover:bg-primary-600 disabled:bg-dark-600 disabled:cursor-not-allowed text-black font-semibold rounded-lg transition-colors"
+          >
+            {isClaiming ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wallet className="w-4 h-4" />}
+            {isClaiming ? 'Claiming...' : 'Claim winnings/refund'}
+          </button>
+        </>
+      ) : (
+        <div className="flex items-center gap-2 text-green-400 text-sm">
+          <CheckCircle2 className="w-4 h-4" />
+          <span>Claimed. The funds are in your wallet.</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import { ethers } from 'ethers';
+import { Lock, Eye, Loader2, AlertCircle } from 'lucide-react';
+import { formatAmount } from '@/lib/utils';
+import type { PaymentAsset } from '@/lib/constants';
+import type { PastRound } from '@/hooks/useLottery';
+
+interface ConfidentialBalancePanelProps {
+  isConnected: boolean;
+  pastRounds: PastRound[];
+  asset: PaymentAsset;
+  onDecryptBalance?: (tokenAddress: string) => Promise<bigint | null>;
+}
+
+export function ConfidentialBalancePanel({
+  isConnected,
+  pastRounds,
+  asset,
+  onDecryptBalance,
+}: ConfidentialBalancePanelProps) {
+  // Most recent token prizes were paid into
+  const tokenAddress = pastRounds.find((round) => round.payoutToken !== ethers.ZeroAddress)?.payoutToken;
+
+  const [balance, setBalance] = useState<bigint | null | undefined>(undefined);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isConnected || !tokenAddress) return null;
+
+  const handleDecrypt = async () => {
+    if (!onDecryptBalance) return;
+
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      setBalance(await onDecryptBalance(tokenAddress));
+    } catch (err: any) {
+      setError(err.message || 'Failed to decrypt balance');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  return (
+    <div className="bg-dark-900 border border-dark-700 rounded-xl p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Lock className="w-5 h-5 text-primary-400" />
+        <h2 className="text-lg font-semibold text-white">Confidential Winnings</h2>
+      </div>
+      <p className="text-sm text-dark-400 mb-4">
+        Prizes are paid into an encrypted token balance. Only you can decrypt how much you won.
+      </p>
+
+      {balance !== undefined ? (
+        <p className="text-3xl font-mono font-bold text-primary-400">{formatAmount(balance ?? BigInt(0), asset)}</p>
+      ) : (
+        <button
+          onClick={handleDecrypt}
+          disabled={isDecrypting || !onDecryptBalance}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-dark-800 hover:bg-dark-700 border border-dark-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors"
+        >
+          {isDecrypting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+          {isDecrypting ? 'Decrypting...' : 'Decrypt my balance'}
+        </button>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-400 text-sm mt-3">
+          <AlertCircle className="w-4 h-4" />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,76 @@
 'use client';
 
-import { useState } from 'react';
-import { Lock, AlertCircle, Send, Info } from 'lucide-react';
-import { ENTRY_FEE, MAX_GUESS, MAX_CONFIDENCE } from '@/lib/constants';
+import { useEffect, useState } from 'react';
+import { Lock, AlertCircle, Send, Info, Eye, Loader2 } from 'lucide-react';
+import { MAX_GUESS, MAX_CONFIDENCE, type PaymentAsset } from '@/lib/constants';
+import { formatAmount } from '@/lib/utils';
+
+export interface SealedEntry {
+  guess: number;
+  confidence: number;
+}
 
 interface EntryFormProps {
   isConnected: boolean;
-  hasEntered: boolean;
+  entryCount: number;
+  maxEntries: number;
   isLoading: boolean;
   timeRemaining: number;
+  entryPrice?: bigint;
+  asset: PaymentAsset;
   onSubmit: (guess: number, confidence: number) => Promise<boolean>;
+  onViewEntries?: () => Promise<SealedEntry[] | null>;
 }
 
 export function EntryForm({
   isConnected,
-  hasEntered,
+  entryCount,
+  maxEntries,
   isLoading,
   timeRemaining,
+  entryPrice,
+  asset,
   onSubmit,
+  onViewEntries,
 }: EntryFormProps) {
   const [guess, setGuess] = useState(500);
   const [confidence, setConfidence] = useState(50);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sealedEntries, setSealedEntries] = useState<SealedEntry[] | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const hasEntered = entryCount > 0;
+  const atLimit = entryCount >= maxEntries;
+
+  // Forget decrypted entries once a new entry is added or a new round starts
+  useEffect(() => {
+    setSealedEntries(null);
+  }, [entryCount]);
+
+  const handleViewEntries = async () => {
+    if (!onViewEntries) return;
+
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      const entries = await onViewEntries();
+      if (entries) {
+        setSealedEntries(entries);
+      } else {
+        setError('Could not decrypt your entries. Please try again.');
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to decrypt entries');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isConnected || hasEntered || timeRemaining <= 0) return;
+    if (!isConnected || atLimit || timeRemaining <= 0) return;
 
     setIsSubmitting(true);
     setError(null);
@@ -43,7 +87,7 @@ export function EntryForm({
     }
   };
 
-  const isDisabled = !isConnected || hasEntered || timeRemaining <= 0 || isLoading || isSubmitting;
+  const isDisabled = !isConnected || atLimit || timeRemaining <= 0 || isLoading || isSubmitting;
 
   return (
     <div className="bg-dark-900 border border-dark-700 rounded-xl p-6">
@@ -61,11 +105,37 @@ export function EntryForm({
         <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4 mb-6">
           <div className="flex items-center gap-2 text-green-400">
             <Lock className="w-4 h-4" />
-            <span className="font-medium">Entry Submitted</span>
+            <span className="font-medium">
+              {entryCount === 1 ? 'Your sealed entry' : `Your ${entryCount} sealed entries`}
+            </span>
           </div>
           <p className="text-sm text-green-400/80 mt-1">
-            Your encrypted prediction is locked in. Results will be revealed after the round ends.
+            Your encrypted predictions are locked in. Results will be revealed after the round ends.
+            {!atLimit && ` You can add ${maxEntries - entryCount} more, each paid separately.`}
           </p>
+          {onViewEntries && !sealedEntries && (
+            <button
+              type="button"
+              onClick={handleViewEntries}
+              disabled={isDecrypting}
+              className="mt-3 flex items-center gap-2 text-sm text-green-400 hover:text-green-300 disabled:opacity-50 transition-colors"
+            >
+              {isDecrypting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              {isDecrypting ? 'Decrypting...' : entryCount === 1 ? 'View my sealed entry' : 'View my sealed entries'}
+            </button>
+          )}
+          {sealedEntries && (
+            <div className="mt-3 space-y-1">
+              {sealedEntries.map((entry, idx) => (
+                <p key={idx} className="text-sm text-green-400">
+                  {entryCount > 1 && <span className="text-green-400/60">#{idx + 1} </span>}
+                  Guess <span className="font-mono font-bold">{entry.guess}</span> with{' '}
+                  <span className="font-mono font-bold">{entry.confidence}%</span> confidence
+                </p>
+              ))}
+              <p className="text-xs text-green-400/60">Decrypted locally. Only you can see these values.</p>
+            </div>
+          )}
         </div>
       ) : null}
 
@@ -126,8 +196,16 @@ export function EntryForm({
         <div className="bg-dark-800 rounded-lg p-4 space-y-2">
           <div className="flex justify-between text-sm">
             <span className="text-dark-400">Entry Fee</span>
-            <span className="text-white font-medium">{ENTRY_FEE} ETH</span>
+            <span className="text-white font-medium">
+              {entryPrice !== undefined ? formatAmount(entryPrice, asset) : '...'}
+            </span>
           </div>
+          {maxEntries > 1 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-dark-400">Your Entries</span>
+              <span className="text-white font-medium">{entryCount} / {maxEntries}</span>
+            </div>
+          )}
           <div className="flex justify-between text-sm">
             <span className="text-dark-400">Your Guess</span>
             <span className="text-white font-mono encrypted-text">████</span>
@@ -155,10 +233,10 @@ export function EntryForm({
               <div className="w-4 h-4 border-2 border-dark-950/30 border-t-dark-950 rounded-full animate-spin" />
               Encrypting & Submitting...
             </>
-          ) : hasEntered ? (
+          ) : atLimit ? (
             <>
               <Lock className="w-4 h-4" />
-              Entry Locked
+              {maxEntries > 1 ? 'Entry Limit Reached' : 'Entry Locked'}
             </>
           ) : timeRemaining <= 0 ? (
             'Round Ended'
@@ -167,7 +245,7 @@ export function EntryForm({
           ) : (
             <>
               <Send className="w-4 h-4" />
-              Submit Encrypted Entry
+              {hasEntered ? 'Submit Another Entry' : 'Submit Encrypted Entry'}
             </>
           )}
         </button>
@@ -176,6 +254,7 @@ export function EntryForm({
       <p className="text-xs text-dark-500 text-center mt-4">
         Your prediction will be encrypted using Fully Homomorphic Encryption before being sent on-chain.
         No one, including validators, can see your guess until reveal.
+        {asset.address && ` The ${asset.symbol} fee is approved with a permit signature, or an approval transaction if the token has no permit.`}
       </p>
     </div>
   );
@@ -1,25 +1,50 @@
 'use client';
 
-import { Lock, Wallet, ExternalLink } from 'lucide-react';
+import { useState } from 'react';
+import Link from 'next/link';
+import { Lock, Wallet, ExternalLink, LayoutGrid } from 'lucide-react';
+import { NETWORK } from '@/lib/constants';
 import { formatAddress } from '@/lib/utils';
+import type { WalletOption } from '@/lib/wallets';
 
 interface HeaderProps {
   address: string | null;
   isConnected: boolean;
   isConnecting: boolean;
   isWrongNetwork: boolean;
-  onConnect: () => void;
+  wallets: WalletOption[]; // Discovered browser wallets
+  activeWallet: WalletOption | null;
+  onConnect: (wallet?: WalletOption) => void;
   onDisconnect: () => void;
 }
 
+function WalletIcon({ wallet }: { wallet: WalletOption }) {
+  // Icons are data URIs announced by the wallet itself
+  return wallet.info.icon ? (
+    <img src={wallet.info.icon} alt="" className="w-5 h-5 rounded" />
+  ) : (
+    <Wallet className="w-5 h-5 text-dark-400" />
+  );
+}
+
 export function Header({
   address,
   isConnected,
   isConnecting,
   isWrongNetwork,
+  wallets,
+  activeWallet,
   onConnect,
   onDisconnect,
 }: HeaderProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+
+  // Pick only when there is a choice; with one or no wallet, connect reports what is missing
+  const handleConnect = () => {
+    if (wallets.length > 1) setIsPickerOpen(open => !open);
+    else onConnect(wallets[0]);
+  };
+
   return (
     <header className="border-b border-dark-800 bg-dark-950/80 backdrop-blur-sm sticky top-0 z-50">
       <div className="max-w-6xl mx-auto px-4 py-4 flex items-center justify-between">
@@ -34,14 +59,25 @@ export function Header({
         </div>
 
         <div className="flex items-center gap-4">
-          <a
-            href="https://sepolia.etherscan.io"
-            target="_blank"
-            rel="noopener noreferrer"
+          <Link
+            href="/lobby"
             className="text-dark-400 hover:text-white transition-colors flex items-center gap-1 text-sm"
           >
-            Sepolia <ExternalLink className="w-3 h-3" />
-          </a>
+            <LayoutGrid className="w-3 h-3" /> Lobby
+          </Link>
+
+          {NETWORK.explorerUrl ? (
+            <a
+              href={NETWORK.explorerUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-dark-400 hover:text-white transition-colors flex items-center gap-1 text-sm"
+            >
+              {NETWORK.label} <ExternalLink className="w-3 h-3" />
+            </a>
+          ) : (
+            <span className="text-dark-400 text-sm">{NETWORK.label}</span>
+          )}
 
           {isConnected ? (
             <div className="flex items-center gap-3">
@@ -50,6 +86,7 @@ export function Header({
               )}
               <button
                 onClick={onDisconnect}
+                title={activeWallet ? `Connected with ${activeWallet.info.name}` : undefined}
                 className="flex items-center gap-2 bg-dark-800 hover:bg-dark-700 border border-dark-600 px-4 py-2 rounded-lg transition-colors"
               >
                 <div className="w-2 h-2 bg-green-500 rounded-full" />
@@ -57,14 +94,35 @@ export function Header({
               </button>
             </div>
           ) : (
-            <button
-              onClick={onConnect}
-              disabled={isConnecting}
-              className="flex items-center gap-2 bg-primary-500 hover:bg-primary-400 text-dark-950 font-semibold px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
-            >
-              <Wallet className="w-4 h-4" />
-              {isConnecting ? 'Connecting...' : 'Connect Wallet'}
-            </button>
+            <div className="relative">
+              <button
+                onClick={handleConnect}
+                disabled={isConnecting}
+                className="flex items-center gap-2 bg-primary-500 hover:bg-primary-400 text-dark-950 font-semibold px-4 py-2 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Wallet className="w-4 h-4" />
+                {isConnecting ? 'Connecting...' : 'Connect Wallet'}
+              </button>
+
+              {isPickerOpen && (
+                <ul className="absolute right-0 mt-2 w-56 bg-dark-900 border border-dark-700 rounded-lg shadow-lg py-1">
+                  {wallets.map((wallet) => (
+                    <li key={wallet.info.uuid}>
+                      <button
+                        onClick={() => {
+                          setIsPickerOpen(false);
+                          onConnect(wallet);
+                        }}
+                        className="w-full flex items-center gap-3 px-4 py-2 text-sm text-white hover:bg-dark-800 transition-colors"
+                      >
+                        <WalletIcon wallet={wallet} />
+                        {wallet.info.name}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
           )}
         </div>
       </div>
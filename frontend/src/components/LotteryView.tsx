@@ -0,0 +1,400 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Header } from '@/components/Header';
+import { RoundInfo } from '@/components/RoundInfo';
+import { EntryForm } from '@/components/EntryForm';
+import { WinnerCategories } from '@/components/WinnerCategories';
+import { RevealPanel } from '@/components/RevealPanel';
+import { ScoreBreakdown } from '@/components/ScoreBreakdown';
+import { ClaimPanel } from '@/components/ClaimPanel';
+import { ConfidentialBalancePanel } from '@/components/ConfidentialBalancePanel';
+import { SponsorPanel } from '@/components/SponsorPanel';
+import { useWallet } from '@/hooks/useWallet';
+import { useLottery, RoundStatus, canExtendRound } from '@/hooks/useLottery';
+import { initializeFhevm, encryptPrediction, userDecrypt } from '@/lib/fhevm';
+import { NETWORK } from '@/lib/constants';
+import { formatBps } from '@/lib/utils';
+import { HelpCircle, Shield, Zap, Eye, ArrowLeft } from 'lucide-react';
+
+interface LotteryViewProps {
+  contractAddress: string;
+  // Set when the view is opened from the lobby
+  showLobbyLink?: boolean;
+}
+
+export function LotteryView({ contractAddress, showLobbyLink }: LotteryViewProps) {
+  const wallet = useWallet();
+  const lottery = useLottery(wallet.signer, contractAddress);
+  const [fhevmReady, setFhevmReady] = useState(false);
+  const [encryptionError, setEncryptionError] = useState<string | null>(null);
+
+  // Initialize FHEVM on mount
+  useEffect(() => {
+    initializeFhevm()
+      .then(() => setFhevmReady(true))
+      .catch((err) => {
+        console.error('FHEVM initialization failed:', err);
+        setEncryptionError('Failed to initialize encryption library');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (wallet.address) {
+      lottery.checkEntry(wallet.address);
+    }
+  }, [wallet.address, lottery.currentRound?.roundId, lottery.checkEntry]);
+
+  // Prizes and refunds are credited when a round completes or is cancelled
+  useEffect(() => {
+    if (wallet.address) {
+      lottery.checkClaimable(wallet.address);
+    }
+  }, [wallet.address, lottery.currentRound?.roundId, lottery.checkClaimable]);
+
+  // Load the sponsor list when the round changes; new sponsorships arrive as events
+  useEffect(() => {
+    const roundId = lottery.currentRound?.roundId;
+    if (roundId !== undefined) {
+      lottery.fetchSponsorships(roundId);
+    }
+  }, [lottery.currentRound?.roundId, lottery.fetchSponsorships]);
+
+  // Auto-settle, extend or cancel expired rounds
+  const [isAutoSettling, setIsAutoSettling] = useState(false);
+  useEffect(() => {
+    const round = lottery.currentRound;
+    if (!round || !wallet.signer || isAutoSettling) return;
+
+    // Check if round has ended (status=Active, time expired)
+    const isEnded = round.status === RoundStatus.Active && lottery.timeRemaining <= 0;
+    if (!isEnded) return;
+
+    const participantCount = Number(round.participantCount);
+    
+    if (participantCount >= 3) {
+      // Auto-settle with enough participants
+      console.log('Auto-settling expired round...');
+      setIsAutoSettling(true);
+      lottery.settleRound()
+        .then((success) => {
+          if (success) console.log('Round settled, entering scoring phase');
+        })
+        .finally(() => setIsAutoSettling(false));
+    } else if (canExtendRound(round)) {
+      // Give a short round more time before refunding its entries
+      console.log('Auto-extending expired round (insufficient participants)...');
+      setIsAutoSettling(true);
+      lottery.extendRound()
+        .then((success) => {
+          if (success) console.log('Round extended, entries carry over');
+        })
+        .finally(() => setIsAutoSettling(false));
+    } else {
+      // Auto-cancel with insufficient participants
+      console.log('Auto-cancelling expired round (insufficient participants)...');
+      setIsAutoSettling(true);
+      lottery.cancelRound()
+        .then((success) => {
+          if (success) console.log('Round cancelled, new round started');
+        })
+        .finally(() => setIsAutoSettling(false));
+    }
+  }, [lottery.currentRound, lottery.timeRemaining, wallet.signer, isAutoSettling, lottery.settleRound, lottery.extendRound, lottery.cancelRound]);
+
+  const handleSubmit = async (guess: number, confidence: number): Promise<boolean> => {
+    if (!wallet.provider || !wallet.address) {
+      setEncryptionError('Wallet not connected');
+      return false;
+    }
+
+    if (!fhevmReady) {
+      setEncryptionError('Encryption library not ready');
+      return false;
+    }
+
+    if (!contractAddress) {
+      setEncryptionError('Contract address not configured');
+      return false;
+    }
+
+    setEncryptionError(null);
+    console.log('Encrypting prediction - guess:', guess, 'confidence:', confidence);
+
+    try {
+      // Encrypt the prediction using real FHE
+      const encrypted = await encryptPrediction(
+        wallet.provider,
+        contractAddress,
+        wallet.address,
+        guess,
+        confidence
+      );
+
+      console.log('Encryption successful, submitting to contract...');
+
+      return lottery.submitEntry(
+        encrypted.encryptedGuess,
+        encrypted.encryptedConfidence,
+        encrypted.inputProof
+      );
+    } catch (err: any) {
+      console.error('Encryption failed:', err);
+      setEncryptionError(err.message || 'Failed to encrypt prediction');
+      return false;
+    }
+  };
+
+  const handleViewEntries = async () => {
+    if (!wallet.provider || !wallet.signer || !wallet.address) return null;
+
+    const entries = await lottery.getEntryHandles(wallet.address);
+    if (!entries || entries.length === 0) return null;
+
+    // One reencryption request for every ticket: guess, confidence, guess, confidence, ...
+    const values = await userDecrypt(
+      wallet.provider,
+      wallet.signer,
+      contractAddress,
+      wallet.address,
+      entries.flatMap((entry) => [entry.encryptedGuess, entry.encryptedConfidence])
+    );
+
+    return entries.map((_, i) => ({ guess: Number(values[2 * i]), confidence: Number(values[2 * i + 1]) }));
+  };
+
+  const handleDecryptScores = async (roundId: bigint) => {
+    if (!wallet.provider || !wallet.signer || !wallet.address) return null;
+
+    const entries = await lottery.getScoreHandles(roundId, wallet.address);
+    if (!entries) return null;
+
+    const values = await userDecrypt(
+      wallet.provider,
+      wallet.signer,
+      contractAddress,
+      wallet.address,
+      entries.flatMap((entry) => [
+        entry.encryptedDistance,
+        entry.encryptedConvictionScore,
+        entry.encryptedCalibrationError,
+      ])
+    );
+
+    return entries.map((entry, i) => ({
+      participantIndex: Number(entry.participantIndex),
+      distance: Number(values[3 * i]),
+      convictionScore: Number(values[3 * i + 1]),
+      calibrationError: Number(values[3 * i + 2]),
+    }));
+  };
+
+  // Balances live in the payout token, so decrypt against the token's ACL
+  const handleDecryptBalance = async (tokenAddress: string) => {
+    if (!wallet.provider || !wallet.signer || !wallet.address) return null;
+
+    const handle = await lottery.getConfidentialBalanceHandle(tokenAddress, wallet.address);
+    if (!handle) return null;
+
+    const [balance] = await userDecrypt(wallet.provider, wallet.signer, tokenAddress, wallet.address, [handle]);
+    return balance;
+  };
+
+  return (
+    <div className="min-h-screen bg-dark-950">
+      <Header
+        address={wallet.address}
+        isConnected={wallet.isConnected}
+        isConnecting={wallet.isConnecting}
+        isWrongNetwork={wallet.isWrongNetwork}
+        wallets={wallet.wallets}
+        activeWallet={wallet.wallet}
+        onConnect={wallet.connect}
+        onDisconnect={wallet.disconnect}
+      />
+
+      <main className="max-w-6xl mx-auto px-4 py-8">
+        {/* Hero Section */}
+        <div className="text-center mb-12">
+          {showLobbyLink && (
+            <Link
+              href="/lobby"
+              className="inline-flex items-center gap-1 text-sm text-dark-400 hover:text-white transition-colors mb-4"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              All lotteries
+            </Link>
+          )}
+          <h1 className="text-4xl md:text-5xl font-bold text-white mb-4">
+            Prediction Under <span className="text-primary-400">Uncertainty</span>
+          </h1>
+          <p className="text-lg text-dark-400 max-w-2xl mx-auto">
+            A privacy-first prediction game powered by Fully Homomorphic Encryption.
+            All guesses remain encrypted until reveal. No one knows the outcome until it's revealed.
+          </p>
+        </div>
+
+        {/* Feature Pills */}
+        <div className="flex flex-wrap justify-center gap-3 mb-12">
+          <div className="flex items-center gap-2 bg-dark-800 border border-dark-600 rounded-full px-4 py-2">
+            <Shield className="w-4 h-4 text-primary-400" />
+            <span className="text-sm text-dark-300">FHE Encrypted</span>
+          </div>
+          <div className="flex items-center gap-2 bg-dark-800 border border-dark-600 rounded-full px-4 py-2">
+            <Zap className="w-4 h-4 text-primary-400" />
+            <span className="text-sm text-dark-300">Fully Autonomous</span>
+          </div>
+          <div className="flex items-center gap-2 bg-dark-800 border border-dark-600 rounded-full px-4 py-2">
+            <Eye className="w-4 h-4 text-primary-400" />
+            <span className="text-sm text-dark-300">Reveal at Settlement</span>
+          </div>
+        </div>
+
+        {/* Main Grid */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Left Column - Round Info & Entry */}
+          <div className="lg:col-span-2 space-y-6">
+            <RoundInfo
+              round={lottery.currentRound}
+              asset={lottery.asset}
+              timeRemaining={lottery.timeRemaining}
+              onSettleRound={wallet.signer ? lottery.settleRound : undefined}
+              onExtendRound={wallet.signer ? lottery.extendRound : undefined}
+              onCancelRound={wallet.signer ? lottery.cancelRound : undefined}
+              onComputeScores={wallet.signer ? lottery.computeScoresBatch : undefined}
+              revealStatus={lottery.revealStatus}
+              onRequestReveal={wallet.signer ? lottery.requestWinnerReveal : undefined}
+              onRevealIndices={wallet.signer ? lottery.revealWinnerIndices : undefined}
+              onFinalizeRound={wallet.signer ? lottery.finalizeRound : undefined}
+              isSettling={isAutoSettling || lottery.isLoading}
+            />
+
+            <EntryForm
+              isConnected={wallet.isConnected}
+              entryCount={lottery.entryIndices.length}
+              maxEntries={lottery.currentRound?.config.maxEntriesPerAddress ?? 1}
+              isLoading={lottery.isLoading}
+              timeRemaining={lottery.timeRemaining}
+              entryPrice={lottery.currentRound?.config.entryPrice}
+              asset={lottery.asset}
+              onSubmit={handleSubmit}
+              onViewEntries={fhevmReady ? handleViewEntries : undefined}
+            />
+          </div>
+
+          {/* Right Column - Claims & Winner Categories */}
+          <div className="space-y-6">
+            <ClaimPanel
+              isConnected={wallet.isConnected}
+              claimable={lottery.claimable}
+              asset={lottery.asset}
+              isLoading={lottery.isLoading}
+              onClaim={lottery.claim}
+            />
+
+            <ConfidentialBalancePanel
+              isConnected={wallet.isConnected}
+              pastRounds={lottery.pastRounds}
+              asset={lottery.asset}
+              onDecryptBalance={fhevmReady ? handleDecryptBalance : undefined}
+            />
+
+            <SponsorPanel
+              isConnected={wallet.isConnected}
+              isOpen={lottery.currentRound?.status === RoundStatus.Active}
+              sponsorships={lottery.sponsorships}
+              asset={lottery.asset}
+              isLoading={lottery.isLoading}
+              onSponsor={lottery.sponsorRound}
+            />
+
+            <WinnerCategories config={lottery.currentRound?.config} />
+
+            {/* How It Works */}
+            <div className="bg-dark-900 border border-dark-700 rounded-xl p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <HelpCircle className="w-5 h-5 text-primary-400" />
+                <h2 className="text-lg font-semibold text-white">How It Works</h2>
+              </div>
+              
+              <div className="space-y-4">
+                <div className="flex gap-3">
+                  <div className="w-6 h-6 rounded-full bg-primary-500/20 text-primary-400 flex items-center justify-center text-xs font-bold shrink-0">
+                    1
+                  </div>
+                  <div>
+                    <p className="text-sm text-white font-medium">Submit Encrypted Prediction</p>
+                    <p className="text-xs text-dark-400">Your guess and confidence are encrypted locally before submission</p>
+                  </div>
+                </div>
+
+                <div className="flex gap-3">
+                  <div className="w-6 h-6 rounded-full bg-primary-500/20 text-primary-400 flex items-center justify-center text-xs font-bold shrink-0">
+                    2
+                  </div>
+                  <div>
+                    <p className="text-sm text-white font-medium">Scoring Under Encryption</p>
+                    <p className="text-xs text-dark-400">All computations happen on encrypted data using FHE</p>
+                  </div>
+                </div>
+
+                <div className="flex gap-3">
+                  <div className="w-6 h-6 rounded-full bg-primary-500/20 text-primary-400 flex items-center justify-center text-xs font-bold shrink-0">
+                    3
+                  </div>
+                  <div>
+                    <p className="text-sm text-white font-medium">Reveal & Settlement</p>
+                    <p className="text-xs text-dark-400">All values are decrypted and winners are determined</p>
+                  </div>
+                </div>
+
+                <div className="flex gap-3">
+                  <div className="w-6 h-6 rounded-full bg-primary-500/20 text-primary-400 flex items-center justify-center text-xs font-bold shrink-0">
+                    4
+                  </div>
+                  <div>
+                    <p className="text-sm text-white font-medium">Automatic Next Round</p>
+                    <p className="text-xs text-dark-400">New round starts immediately with fresh encrypted winning number</p>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Past Rounds Reveal Section */}
+        <div className="mt-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <RevealPanel 
+              pastRounds={lottery.pastRounds} 
+              isLoading={lottery.isLoading} 
+              asset={lottery.asset}
+            />
+          </div>
+          <ScoreBreakdown
+            isConnected={wallet.isConnected}
+            currentRound={lottery.currentRound}
+            pastRounds={lottery.pastRounds}
+            onDecryptScores={fhevmReady ? handleDecryptScores : undefined}
+          />
+        </div>
+
+        {/* Error Display */}
+        {(wallet.error || lottery.error || encryptionError) && (
+          <div className="mt-6 bg-red-500/10 border border-red-500/30 rounded-lg p-4">
+            <p className="text-red-400 text-sm">{wallet.error || lottery.error || encryptionError}</p>
+          </div>
+        )}
+
+        {/* Footer Info */}
+        <div className="mt-12 text-center">
+          <p className="text-xs text-dark-500">
+            Deployed on {NETWORK.label} • Powered by Zama FHEVM
+            {lottery.currentRound && ` • ${formatBps(lottery.currentRound.config.platformFeeBps)} Protocol Fee`}
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,13 +1,18 @@
 'use client';
 
 import { useState } from 'react';
-import { Trophy, Target, Scale, Eye, ChevronDown, ChevronUp, ExternalLink } from 'lucide-react';
-import { formatEth, formatAddress } from '@/lib/utils';
-import type { PastRound, WinnerData } from '@/hooks/useLottery';
+import { ethers } from 'ethers';
+import { Trophy, Target, Scale, Eye, ChevronDown, ChevronUp, ExternalLink, Users, Lock } from 'lucide-react';
+import { formatAmount, formatAddress, formatBps } from '@/lib/utils';
+import { NETWORK, type PaymentAsset } from '@/lib/constants';
+import { explorerAddressUrl } from '@shared/networks';
+import { calculateNormalizedAccuracy } from '@shared/scoring';
+import type { CoWinnerData, PastRound, WinnerData } from '@/hooks/useLottery';
 
 interface RevealPanelProps {
   pastRounds: PastRound[];
   isLoading: boolean;
+  asset: PaymentAsset;
 }
 
 const categoryIcons = {
@@ -22,17 +27,71 @@ const categoryNames = {
   2: 'Best Calibration',
 };
 
+// Prizes paid into a confidential token are as public as plain ones, since they follow from
+// the pool and shares; only the winners' token balances are private.
+function PrizeAmount({ amount, asset, confidential }: { amount: bigint; asset: PaymentAsset; confidential: boolean }) {
+  if (!confidential) return <>{formatAmount(amount, asset)}</>;
+  return (
+    <span className="inline-flex items-center gap-1" title="Paid into a confidential token balance">
+      {formatAmount(amount, asset)}
+      <Lock className="w-3 h-3" />
+    </span>
+  );
+}
+
+// Winner address, linked to the block explorer on networks that have one
+function AddressLink({ address, className }: { address: string; className: string }) {
+  const href = explorerAddressUrl(NETWORK, address);
+  if (!href) return <span className={className}>{formatAddress(address)}</span>;
+  return (
+    <a href={href} target="_blank" rel="noopener noreferrer" className={className}>
+      {formatAddress(address)}
+      <ExternalLink className="w-3 h-3" />
+    </a>
+  );
+}
+
 const categoryColors = {
   0: { text: 'text-primary-400', bg: 'bg-primary-500/10', border: 'border-primary-500/30' },
   1: { text: 'text-blue-400', bg: 'bg-blue-500/10', border: 'border-blue-500/30' },
   2: { text: 'text-green-400', bg: 'bg-green-500/10', border: 'border-green-500/30' },
 };
 
-function WinnerCard({ winner, winningNumber }: { winner: WinnerData; winningNumber: number }) {
+function WinnerCard({
+  winner,
+  coWinners,
+  winningNumber,
+  asset,
+  confidential,
+}: {
+  winner: WinnerData;
+  coWinners: CoWinnerData[];
+  winningNumber: number;
+  asset: PaymentAsset;
+  confidential: boolean;
+}) {
   const Icon = categoryIcons[winner.category as keyof typeof categoryIcons] || Trophy;
   const colors = categoryColors[winner.category as keyof typeof categoryColors] || categoryColors[0];
   const name = categoryNames[winner.category as keyof typeof categoryNames] || 'Unknown';
 
+  if (winner.addr === ethers.ZeroAddress) {
+    return (
+      <div className="bg-dark-900 border border-dark-700 rounded-lg p-4">
+        <div className="flex items-start gap-3">
+          <div className="text-dark-500 mt-0.5">
+            <Icon className="w-5 h-5" />
+          </div>
+          <div className="flex-1 min-w-0">
+            <h4 className="font-medium text-dark-400">{name}</h4>
+            <p className="text-sm text-dark-500 mt-2">
+              No valid entry was left to win this category. Its prize rolled over to the next round.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   const getWinnerNarrative = () => {
     switch (winner.category) {
       case 0:
@@ -40,7 +99,7 @@ function WinnerCard({ winner, winningNumber }: { winner: WinnerData; winningNumb
       case 1:
         return `Guessed ${winner.guess}, just ${winner.distance} away from ${winningNumber}. Pure precision rewarded regardless of confidence level.`;
       case 2:
-        return `Their ${winner.confidence}% confidence closely matched their ${Math.round(((1023 - winner.distance) / 1023) * 100)}% accuracy. Calibrated self-assessment wins.`;
+        return `Their ${winner.confidence}% confidence closely matched their ${calculateNormalizedAccuracy(winner.distance)}% accuracy (off by ${winner.score}). Calibrated self-assessment wins.`;
       default:
         return '';
     }
@@ -56,19 +115,14 @@ function WinnerCard({ winner, winningNumber }: { winner: WinnerData; winningNumb
           <div className="flex items-center justify-between gap-2">
             <h4 className={`font-medium ${colors.text}`}>{name}</h4>
             <span className="text-sm font-mono text-primary-400">
-              {formatEth(winner.prize)} ETH
+              <PrizeAmount amount={winner.prize} asset={asset} confidential={confidential} />
             </span>
           </div>
           
-          <a
-            href={`https://sepolia.etherscan.io/address/${winner.addr}`}
-            target="_blank"
-            rel="noopener noreferrer"
+          <AddressLink
+            address={winner.addr}
             className="text-xs text-dark-400 hover:text-white transition-colors flex items-center gap-1 mt-1"
-          >
-            {formatAddress(winner.addr)}
-            <ExternalLink className="w-3 h-3" />
-          </a>
+          />
           
           <p className="text-sm text-dark-300 mt-2">
             {getWinnerNarrative()}
@@ -88,14 +142,35 @@ function WinnerCard({ winner, winningNumber }: { winner: WinnerData; winningNumb
               <span className="text-white ml-1 font-mono">{winner.distance}</span>
             </div>
           </div>
+
+          {coWinners.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-dark-700">
+              <p className="text-xs text-dark-400 flex items-center gap-1 mb-1">
+                <Users className="w-3 h-3" />
+                Tied score, prize split with {coWinners.length} co-winner{coWinners.length > 1 ? 's' : ''}
+              </p>
+              {coWinners.map((coWinner, idx) => (
+                <div key={idx} className="flex items-center justify-between text-xs">
+                  <AddressLink
+                    address={coWinner.addr}
+                    className="text-dark-400 hover:text-white transition-colors flex items-center gap-1"
+                  />
+                  <span className="font-mono text-primary-400">
+                    <PrizeAmount amount={coWinner.prize} asset={asset} confidential={confidential} />
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
 
-function RoundReveal({ round }: { round: PastRound }) {
+function RoundReveal({ round, asset }: { round: PastRound; asset: PaymentAsset }) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const confidential = round.payoutToken !== ethers.ZeroAddress;
 
   return (
     <div className="border border-dark-700 rounded-xl overflow-hidden">
@@ -118,7 +193,7 @@ function RoundReveal({ round }: { round: PastRound }) {
           <div className="hidden sm:flex items-center gap-2 text-xs text-dark-400">
             <span>{round.participantCount.toString()} participants</span>
             <span>•</span>
-            <span>{formatEth(round.prizePool)} ETH pool</span>
+            <span>{formatAmount(round.prizePool, asset)} pool</span>
           </div>
         </div>
         
@@ -152,7 +227,10 @@ function RoundReveal({ round }: { round: PastRound }) {
               <WinnerCard 
                 key={idx} 
                 winner={winner} 
+                coWinners={round.coWinners.filter((coWinner) => coWinner.category === winner.category)}
                 winningNumber={round.winningNumber} 
+                asset={asset}
+                confidential={confidential}
               />
             ))}
           </div>
@@ -161,20 +239,25 @@ function RoundReveal({ round }: { round: PastRound }) {
           <div className="grid grid-cols-3 gap-2 text-center text-xs">
             <div className="bg-dark-900 rounded p-2">
               <p className="text-dark-400">Total Pool</p>
-              <p className="font-mono text-white">{formatEth(round.prizePool)} ETH</p>
+              <p className="font-mono text-white">{formatAmount(round.prizePool, asset)}</p>
             </div>
             <div className="bg-dark-900 rounded p-2">
               <p className="text-dark-400">Distributed</p>
               <p className="font-mono text-white">
-                {formatEth(
-                  round.winners.reduce((sum, w) => sum + w.prize, BigInt(0))
-                )} ETH
+                <PrizeAmount
+                  amount={[...round.winners, ...round.coWinners].reduce((sum, w) => sum + w.prize, BigInt(0))}
+                  asset={asset}
+                  confidential={confidential}
+                />
               </p>
             </div>
             <div className="bg-dark-900 rounded p-2">
-              <p className="text-dark-400">Protocol Fee</p>
+              <p className="text-dark-400">Protocol Fee ({formatBps(round.config.platformFeeBps)})</p>
               <p className="font-mono text-white">
-                {formatEth(round.prizePool / BigInt(100))} ETH
+                {formatAmount(
+                  ((round.prizePool - round.carriedOver - round.sponsored) * BigInt(round.config.platformFeeBps)) / BigInt(10000),
+                  asset
+                )}
               </p>
             </div>
           </div>
@@ -184,7 +267,7 @@ function RoundReveal({ round }: { round: PastRound }) {
   );
 }
 
-export function RevealPanel({ pastRounds, isLoading }: RevealPanelProps) {
+export function RevealPanel({ pastRounds, isLoading, asset }: RevealPanelProps) {
   if (isLoading) {
     return (
       <div className="bg-dark-900 border border-dark-700 rounded-xl p-6">
@@ -227,7 +310,7 @@ export function RevealPanel({ pastRounds, isLoading }: RevealPanelProps) {
 
       <div className="space-y-3">
         {pastRounds.map((round) => (
-          <RoundReveal key={round.roundId.toString()} round={round} />
+          <RoundReveal key={round.roundId.toString()} round={round} asset={asset} />
         ))}
       </div>
 
@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { CheckCircle2, Circle, Loader2, RotateCcw, AlertCircle, Unlock } from 'lucide-react';
+import type { RevealStatus } from '@/hooks/useLottery';
+
+interface RevealWizardProps {
+  revealStatus: RevealStatus | null;
+  isBusy: boolean;
+  onRequestReveal: () => Promise<boolean>;
+  onRevealIndices: () => Promise<boolean>;
+  onFinalize: () => Promise<boolean>;
+}
+
+type StepKey = 'request' | 'indices' | 'finalize';
+
+const steps: { key: StepKey; title: string; description: string }[] = [
+  {
+    key: 'request',
+    title: 'Request Reveal',
+    description: 'Mark the winning number and encrypted winner indices as publicly decryptable',
+  },
+  {
+    key: 'indices',
+    title: 'Reveal Winner Indices',
+    description: 'Public-decrypt the winner and co-winner indices and submit them with the KMS proof',
+  },
+  {
+    key: 'finalize',
+    title: 'Finalize Round',
+    description: 'Public-decrypt the 13 settlement values, verify them on-chain and pay out prizes',
+  },
+];
+
+export function RevealWizard({
+  revealStatus,
+  isBusy,
+  onRequestReveal,
+  onRevealIndices,
+  onFinalize,
+}: RevealWizardProps) {
+  const [runningStep, setRunningStep] = useState<StepKey | null>(null);
+  const [failedStep, setFailedStep] = useState<StepKey | null>(null);
+
+  const completed: Record<StepKey, boolean> = {
+    request: !!revealStatus?.revealRequested,
+    indices: !!revealStatus?.winnerIndicesRevealed,
+    finalize: false,
+  };
+  const currentStep = steps.find((step) => !completed[step.key])?.key ?? 'finalize';
+  const completedCount = steps.filter((step) => completed[step.key]).length;
+
+  const handlers: Record<StepKey, () => Promise<boolean>> = {
+    request: onRequestReveal,
+    indices: onRevealIndices,
+    finalize: onFinalize,
+  };
+
+  const runStep = async (key: StepKey) => {
+    setRunningStep(key);
+    setFailedStep(null);
+    try {
+      const success = await handlers[key]();
+      if (!success) setFailedStep(key);
+    } finally {
+      setRunningStep(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-dark-800 rounded-lg p-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-dark-400">Reveal Progress</span>
+          <span className="text-white font-mono">
+            {completedCount} / {steps.length}
+          </span>
+        </div>
+        <div className="w-full bg-dark-700 rounded-full h-2 mt-2">
+          <div
+            className="bg-green-500 h-2 rounded-full transition-all duration-500"
+            style={{ width: `${(completedCount / steps.length) * 100}%` }}
+          />
+        </div>
+      </div>
+
+      {steps.map((step, index) => {
+        const isDone = completed[step.key];
+        const isCurrent = step.key === currentStep;
+        const isRunning = runningStep === step.key;
+        const hasFailed = failedStep === step.key;
+
+        return (
+          <div
+            key={step.key}
+            className={`flex items-start gap-3 rounded-lg p-3 border ${
+              isCurrent ? 'bg-dark-800 border-dark-600' : 'bg-dark-800/50 border-dark-700'
+            }`}
+          >
+            <div className="mt-0.5">
+              {isDone ? (
+                <CheckCircle2 className="w-4 h-4 text-green-400" />
+              ) : isRunning ? (
+                <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />
+              ) : hasFailed ? (
+                <AlertCircle className="w-4 h-4 text-red-400" />
+              ) : (
+                <Circle className="w-4 h-4 text-dark-500" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className={`text-sm font-medium ${isDone ? 'text-green-400' : 'text-white'}`}>
+                {index + 1}. {step.title}
+              </p>
+              <p className="text-xs text-dark-400 mt-0.5">{step.description}</p>
+              {hasFailed && (
+                <p className="text-xs text-red-400 mt-1">This step failed. Check the error below and retry.</p>
+              )}
+            </div>
+            {isCurrent && !isDone && (
+              <button
+                onClick={() => runStep(step.key)}
+                disabled={isBusy || runningStep !== null}
+                className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 bg-green-500 hover:bg-green-600 disabled:bg-dark-600 disabled:cursor-not-allowed text-black text-xs font-semibold rounded-lg transition-colors"
+              >
+                {isRunning ? (
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                ) : hasFailed ? (
+                  <RotateCcw className="w-3 h-3" />
+                ) : (
+                  <Unlock className="w-3 h-3" />
+                )}
+                {isRunning ? 'Working...' : hasFailed ? 'Retry' : 'Run'}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
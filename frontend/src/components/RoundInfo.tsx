@@ -1,19 +1,40 @@
 'use client';
 
 import { Clock, Users, Coins, Shield, Play, Loader2, Calculator } from 'lucide-react';
-import { formatTimeRemaining, formatEth } from '@/lib/utils';
-import { RoundStatus, type RoundData } from '@/hooks/useLottery';
+import { formatTimeRemaining, formatAmount } from '@/lib/utils';
+import { SCORE_BATCH_SIZE, SPLIT_EVENLY_SCORE_BATCH_SIZE, TIE_POLICIES, type PaymentAsset } from '@/lib/constants';
+import { RoundStatus, TiePolicy, canExtendRound, type RoundData, type RevealStatus } from '@/hooks/useLottery';
+import { RevealWizard } from '@/components/RevealWizard';
 
 interface RoundInfoProps {
   round: RoundData | null;
+  asset: PaymentAsset;
   timeRemaining: number;
   onSettleRound?: () => Promise<boolean>;
+  onExtendRound?: () => Promise<boolean>;
   onCancelRound?: () => Promise<boolean>;
   onComputeScores?: (batchStart: number, batchSize: number) => Promise<boolean>;
+  revealStatus?: RevealStatus | null;
+  onRequestReveal?: () => Promise<boolean>;
+  onRevealIndices?: () => Promise<boolean>;
+  onFinalizeRound?: () => Promise<boolean>;
   isSettling?: boolean;
 }
 
-export function RoundInfo({ round, timeRemaining, onSettleRound, onCancelRound, onComputeScores, isSettling }: RoundInfoProps) {
+export function RoundInfo({
+  round,
+  asset,
+  timeRemaining,
+  onSettleRound,
+  onExtendRound,
+  onCancelRound,
+  onComputeScores,
+  revealStatus,
+  onRequestReveal,
+  onRevealIndices,
+  onFinalizeRound,
+  isSettling,
+}: RoundInfoProps) {
   if (!round) {
     return (
       <div className="bg-dark-900 border border-dark-700 rounded-xl p-6 animate-pulse">
@@ -83,6 +104,12 @@ export function RoundInfo({ round, timeRemaining, onSettleRound, onCancelRound,
           <p className="text-xl font-mono font-bold text-white">
             {formatTimeRemaining(timeRemaining)}
           </p>
+          {round.extensionCount > 0 && (
+            <p className="text-xs text-orange-400 mt-1">
+              Extended {round.extensionCount}/{round.config.maxExtensions} · ends{' '}
+              {new Date(Number(round.endTime) * 1000).toLocaleTimeString()}
+            </p>
+          )}
         </div>
 
         <div className="bg-dark-800 rounded-lg p-4">
@@ -92,6 +119,7 @@ export function RoundInfo({ round, timeRemaining, onSettleRound, onCancelRound,
           </div>
           <p className="text-xl font-mono font-bold text-white">
             {round.participantCount.toString()}
+            <span className="text-sm text-dark-500"> / {round.config.maxParticipants.toString()}</span>
           </p>
         </div>
 
@@ -101,8 +129,15 @@ export function RoundInfo({ round, timeRemaining, onSettleRound, onCancelRound,
             <span className="text-xs uppercase tracking-wide">Prize Pool</span>
           </div>
           <p className="text-xl font-mono font-bold text-primary-400">
-            {formatEth(round.prizePool)} ETH
+            {formatAmount(round.prizePool, asset)}
           </p>
+          {(round.carriedOver > BigInt(0) || round.sponsored > BigInt(0)) && (
+            <p className="text-xs text-dark-400 mt-1">
+              {round.carriedOver > BigInt(0) && `${formatAmount(round.carriedOver, asset)} carried over · `}
+              {round.sponsored > BigInt(0) && `${formatAmount(round.sponsored, asset)} sponsored · `}
+              {formatAmount(round.prizePool - round.carriedOver - round.sponsored, asset)} from entries
+            </p>
+          )}
         </div>
 
         <div className="bg-dark-800 rounded-lg p-4">
@@ -121,10 +156,15 @@ export function RoundInfo({ round, timeRemaining, onSettleRound, onCancelRound,
           The winning number is encrypted and hidden from all participants until reveal.
           All guesses and confidence levels remain private throughout the round.
         </p>
+        {TIE_POLICIES[round.tiePolicy] && (
+          <p className="text-xs text-dark-500 text-center mt-1">
+            Ties: {TIE_POLICIES[round.tiePolicy].name}. {TIE_POLICIES[round.tiePolicy].description}.
+          </p>
+        )}
       </div>
 
       {/* Settle/Cancel Round Button - shown when round ended */}
-      {isEnded && (onSettleRound || onCancelRound) && (
+      {isEnded && (onSettleRound || onExtendRound || onCancelRound) && (
         <div className="mt-4">
           {Number(round.participantCount) >= 3 ? (
             <button
@@ -135,6 +175,17 @@ export function RoundInfo({ round, timeRemaining, onSettleRound, onCancelRound,
               <Play className="w-4 h-4" />
               {isSettling ? 'Settling Round...' : 'Settle Round & Begin Scoring'}
             </button>
+          ) : canExtendRound(round) && onExtendRound ? (
+            <button
+              onClick={onExtendRound}
+              disabled={isSettling}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-orange-500 hover:bg-orange-600 disabled:bg-dark-600 disabled:cursor-not-allowed text-black font-semibold rounded-lg transition-colors"
+            >
+              <Clock className="w-4 h-4" />
+              {isSettling
+                ? 'Extending...'
+                : `Extend Round (${round.extensionCount + 1}/${round.config.maxExtensions})`}
+            </button>
           ) : onCancelRound ? (
             <button
               onClick={onCancelRound}
@@ -167,7 +218,12 @@ export function RoundInfo({ round, timeRemaining, onSettleRound, onCancelRound,
           </div>
           
           <button
-            onClick={() => onComputeScores(Number(round.scoresComputedCount), 10)}
+            onClick={() =>
+              onComputeScores(
+                Number(round.scoresComputedCount),
+                round.tiePolicy === TiePolicy.SplitEvenly ? SPLIT_EVENLY_SCORE_BATCH_SIZE : SCORE_BATCH_SIZE
+              )
+            }
             disabled={isSettling}
             className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-blue-500 hover:bg-blue-600 disabled:bg-dark-600 disabled:cursor-not-allowed text-white font-semibold rounded-lg transition-colors"
           >
@@ -200,8 +256,22 @@ export function RoundInfo({ round, timeRemaining, onSettleRound, onCancelRound,
           </div>
           <p className="text-sm text-green-400/80">
             Encrypted scoring complete. Winners have been determined under encryption.
-            Awaiting off-chain decryption and final reveal transaction.
+            {onRequestReveal && onRevealIndices && onFinalizeRound
+              ? ' Anyone can run the reveal below to finish the round.'
+              : ' Awaiting off-chain decryption and final reveal transaction.'}
           </p>
+
+          {onRequestReveal && onRevealIndices && onFinalizeRound && (
+            <div className="mt-4">
+              <RevealWizard
+                revealStatus={revealStatus ?? null}
+                isBusy={!!isSettling}
+                onRequestReveal={onRequestReveal}
+                onRevealIndices={onRevealIndices}
+                onFinalize={onFinalizeRound}
+              />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,179 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { Trophy, Target, Scale, Lock, Eye, Loader2, AlertCircle } from 'lucide-react';
+import { RoundStatus, type PastRound, type RoundData } from '@/hooks/useLottery';
+
+export interface PersonalScores {
+  participantIndex: number;
+  distance: number;
+  convictionScore: number;
+  calibrationError: number;
+}
+
+interface ScoreBreakdownProps {
+  isConnected: boolean;
+  currentRound: RoundData | null;
+  pastRounds: PastRound[];
+  // Scores of each of the user's scored entries in the round
+  onDecryptScores?: (roundId: bigint) => Promise<PersonalScores[] | null>;
+}
+
+export function ScoreBreakdown({ isConnected, currentRound, pastRounds, onDecryptScores }: ScoreBreakdownProps) {
+  // Rounds with computed scores: the one being settled, then completed ones
+  const roundIds: bigint[] = [
+    ...(currentRound && currentRound.status === RoundStatus.Settling && currentRound.scoresComputedCount > BigInt(0)
+      ? [currentRound.roundId]
+      : []),
+    ...pastRounds.map((round) => round.roundId),
+  ];
+
+  const [selectedRoundId, setSelectedRoundId] = useState<bigint | null>(null);
+  const [scores, setScores] = useState<Record<string, PersonalScores[] | null>>({});
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (selectedRoundId === null && roundIds.length > 0) {
+      setSelectedRoundId(roundIds[0]);
+    }
+  }, [selectedRoundId, roundIds]);
+
+  const selectedKey = selectedRoundId?.toString() ?? '';
+  const selectedScores = scores[selectedKey];
+  const pastRound = pastRounds.find((round) => round.roundId === selectedRoundId);
+
+  const handleDecrypt = async () => {
+    if (!onDecryptScores || selectedRoundId === null) return;
+
+    setIsDecrypting(true);
+    setError(null);
+
+    try {
+      const result = await onDecryptScores(selectedRoundId);
+      setScores((prev) => ({ ...prev, [selectedKey]: result }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to decrypt scores');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  // Categories left without a valid winner have nothing to compare against
+  const winnerOf = (category: number) => {
+    const winner = pastRound?.winners[category];
+    return winner && winner.addr !== ethers.ZeroAddress ? winner : undefined;
+  };
+
+  const rowsFor = (entry: PersonalScores) => [
+    {
+      name: 'Conviction Score',
+      icon: Trophy,
+      color: 'text-primary-400',
+      value: entry.convictionScore.toLocaleString(),
+      hint: 'Higher is better',
+      winner: winnerOf(0)?.score.toLocaleString(),
+    },
+    {
+      name: 'Distance',
+      icon: Target,
+      color: 'text-blue-400',
+      value: entry.distance.toString(),
+      hint: 'Lower is better',
+      winner: winnerOf(1)?.distance.toString(),
+    },
+    {
+      name: 'Calibration Error',
+      icon: Scale,
+      color: 'text-green-400',
+      value: entry.calibrationError.toString(),
+      hint: 'Lower is better',
+      winner: winnerOf(2)?.score.toString(),
+    },
+  ];
+
+  return (
+    <div className="bg-dark-900 border border-dark-700 rounded-xl p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Lock className="w-5 h-5 text-primary-400" />
+        <h2 className="text-lg font-semibold text-white">Your Scores</h2>
+      </div>
+
+      {!isConnected ? (
+        <p className="text-sm text-dark-400">Connect your wallet to decrypt your own encrypted scores.</p>
+      ) : roundIds.length === 0 ? (
+        <p className="text-sm text-dark-400">Your scores become available once a round you entered is scored.</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {roundIds.map((roundId) => (
+              <button
+                key={roundId.toString()}
+                onClick={() => setSelectedRoundId(roundId)}
+                className={`px-2.5 py-1 rounded text-xs font-mono transition-colors ${
+                  roundId === selectedRoundId
+                    ? 'bg-primary-500/20 text-primary-400'
+                    : 'bg-dark-800 text-dark-400 hover:text-white'
+                }`}
+              >
+                #{roundId.toString()}
+              </button>
+            ))}
+          </div>
+
+          {selectedScores ? (
+            <div className="space-y-4">
+              {selectedScores.map((entry) => (
+                <div key={entry.participantIndex} className="space-y-2">
+                  {selectedScores.length > 1 && (
+                    <p className="text-xs text-dark-400">Entry #{entry.participantIndex}</p>
+                  )}
+                  {rowsFor(entry).map((row) => (
+                    <div key={row.name} className="bg-dark-800 rounded-lg p-3">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-2">
+                          <row.icon className={`w-4 h-4 ${row.color}`} />
+                          <span className="text-sm text-white">{row.name}</span>
+                        </div>
+                        <span className={`font-mono font-bold ${row.color}`}>{row.value}</span>
+                      </div>
+                      <div className="flex justify-between text-xs text-dark-500 mt-1">
+                        <span>{row.hint}</span>
+                        {row.winner !== undefined && <span>Winner: {row.winner}</span>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ) : selectedScores === null ? (
+            <p className="text-sm text-dark-400">
+              No scored entry of yours in round #{selectedKey}.
+            </p>
+          ) : (
+            <button
+              onClick={handleDecrypt}
+              disabled={isDecrypting || !onDecryptScores}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-dark-800 hover:bg-dark-700 border border-dark-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors"
+            >
+              {isDecrypting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />}
+              {isDecrypting ? 'Decrypting...' : `Decrypt my scores for round #${selectedKey}`}
+            </button>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 text-red-400 text-sm">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-dark-500 mt-4">
+        Scores are decrypted locally with your own key. No one else can see them.
+      </p>
+    </div>
+  );
+}
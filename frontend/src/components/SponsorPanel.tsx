@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { ethers } from 'ethers';
+import { Gift, Loader2 } from 'lucide-react';
+import { formatAddress, formatAmount } from '@/lib/utils';
+import type { PaymentAsset } from '@/lib/constants';
+import type { Sponsorship } from '@/hooks/useLottery';
+
+interface SponsorPanelProps {
+  isConnected: boolean;
+  isOpen: boolean; // The current round still accepts sponsorships
+  sponsorships: Sponsorship[];
+  asset: PaymentAsset;
+  isLoading: boolean;
+  onSponsor: (amount: bigint, message: string) => Promise<boolean>;
+}
+
+export function SponsorPanel({ isConnected, isOpen, sponsorships, asset, isLoading, onSponsor }: SponsorPanelProps) {
+  const [amount, setAmount] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSponsoring, setIsSponsoring] = useState(false);
+
+  // Sponsorships are paid in ETH only
+  const canSponsor = isConnected && isOpen && !asset.address;
+  if (!canSponsor && sponsorships.length === 0) return null;
+
+  let value: bigint | null = null;
+  try {
+    value = amount ? ethers.parseEther(amount) : null;
+  } catch {
+    value = null;
+  }
+
+  const handleSponsor = async () => {
+    if (!value) return;
+
+    setIsSponsoring(true);
+    try {
+      if (await onSponsor(value, message)) {
+        setAmount('');
+        setMessage('');
+      }
+    } finally {
+      setIsSponsoring(false);
+    }
+  };
+
+  return (
+    <div className="bg-dark-900 border border-dark-700 rounded-xl p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Gift className="w-5 h-5 text-primary-400" />
+        <h2 className="text-lg font-semibold text-white">Sponsors</h2>
+      </div>
+      <p className="text-sm text-dark-400 mb-4">
+        Sponsorships go straight into this round&apos;s prize pool and are not charged the platform fee.
+      </p>
+
+      {sponsorships.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {sponsorships.map((sponsorship, i) => (
+            <li key={i} className="bg-dark-800 rounded-lg p-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-mono text-dark-300">{formatAddress(sponsorship.sponsor)}</span>
+                <span className="font-mono text-primary-400">{formatAmount(sponsorship.amount, asset)}</span>
+              </div>
+              {sponsorship.message && <p className="text-xs text-dark-400 mt-1">{sponsorship.message}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canSponsor && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder={`Amount (${asset.symbol})`}
+            className="w-full px-3 py-2 bg-dark-800 border border-dark-600 rounded-lg text-white text-sm font-mono focus:outline-none focus:border-primary-500"
+          />
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder="Message (optional)"
+            maxLength={140}
+            className="w-full px-3 py-2 bg-dark-800 border border-dark-600 rounded-lg text-white text-sm focus:outline-none focus:border-primary-500"
+          />
+          <button
+            onClick={handleSponsor}
+            disabled={!value || isSponsoring || isLoading}
+            className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-dark-800 hover:bg-dark-700 border border-dark-600 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded-lg transition-colors"
+          >
+            {isSponsoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gift className="w-4 h-4" />}
+            {isSponsoring ? 'Sponsoring...' : 'Sponsor this round'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,11 +2,18 @@
 
 import { Trophy, Target, Scale } from 'lucide-react';
 import { WINNER_CATEGORIES } from '@/lib/constants';
+import { formatBps } from '@/lib/utils';
+import type { RoundConfig } from '@/hooks/useLottery';
 
-export function WinnerCategories() {
+interface WinnerCategoriesProps {
+  config?: RoundConfig;
+}
+
+export function WinnerCategories({ config }: WinnerCategoriesProps) {
   const categories = [
     {
       ...WINNER_CATEGORIES.CONVICTION_WEIGHTED,
+      shareBps: config?.convictionShareBps,
       icon: Trophy,
       color: 'text-primary-400',
       bg: 'bg-primary-500/10',
@@ -14,6 +21,7 @@ export function WinnerCategories() {
     },
     {
       ...WINNER_CATEGORIES.RAW_ACCURACY,
+      shareBps: config?.accuracyShareBps,
       icon: Target,
       color: 'text-blue-400',
       bg: 'bg-blue-500/10',
@@ -21,6 +29,7 @@ export function WinnerCategories() {
     },
     {
       ...WINNER_CATEGORIES.CALIBRATION,
+      shareBps: config?.calibrationShareBps,
       icon: Scale,
       color: 'text-green-400',
       bg: 'bg-green-500/10',
@@ -51,7 +60,7 @@ export function WinnerCategories() {
                     {category.name}
                   </h3>
                   <span className="text-sm font-mono text-dark-300">
-                    {category.share}
+                    {category.shareBps !== undefined ? formatBps(category.shareBps) : '...'}
                   </span>
                 </div>
                 <p className="text-sm text-dark-400 mt-1">
@@ -66,7 +75,7 @@ export function WinnerCategories() {
       <div className="mt-6 p-3 bg-dark-800/50 rounded-lg border border-dark-700">
         <p className="text-xs text-dark-400">
           If a participant qualifies for multiple categories, they receive the highest-priority award 
-          and the next eligible participant is promoted. Each round always resolves to three distinct winners.
+          and the next eligible participant is promoted. Each round resolves to three distinct winners, unless too few valid entries are left to fill every category.
         </p>
       </div>
     </div>
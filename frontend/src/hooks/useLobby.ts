@@ -0,0 +1,98 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ethers } from 'ethers';
+import { CONTRACT_ABI, FACTORY_ABI, FACTORY_ADDRESS, NATIVE_ASSET, type PaymentAsset } from '@/lib/constants';
+import { getReadRunner } from '@/lib/provider';
+import { RoundStatus, TiePolicy, fetchPaymentAsset, toRoundConfig, type RoundData } from '@/hooks/useLottery';
+
+// A factory-deployed instance with its live round
+export interface LobbyEntry {
+  address: string;
+  name: string;
+  creator: string;
+  createdAt: bigint;
+  asset: PaymentAsset;
+  currentRound: RoundData | null;
+}
+
+export function useLobby(signer: ethers.Signer | null) {
+  const [factory, setFactory] = useState<ethers.Contract | null>(null);
+  const [lotteries, setLotteries] = useState<LobbyEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The lobby only reads, so it loads for visitors without a wallet too
+  const runner = getReadRunner(signer);
+
+  useEffect(() => {
+    setFactory(runner && FACTORY_ADDRESS ? new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, runner) : null);
+  }, [runner]);
+
+  const fetchRound = useCallback(async (address: string): Promise<RoundData | null> => {
+    try {
+      const lottery = new ethers.Contract(address, CONTRACT_ABI, runner);
+      const round = await lottery.getCurrentRound();
+      const tiePolicy = await lottery.getRoundTiePolicy(round.roundId);
+      const config = await lottery.getRoundConfig(round.roundId);
+      return {
+        roundId: round.roundId,
+        startTime: round.startTime,
+        endTime: round.endTime,
+        prizePool: round.prizePool,
+        carriedOver: round.carriedOver,
+        sponsored: round.sponsored,
+        participantCount: round.participantCount,
+        scoresComputedCount: round.scoresComputedCount,
+        extensionCount: Number(round.extensionCount),
+        status: Number(round.status) as RoundStatus,
+        tiePolicy: Number(tiePolicy) as TiePolicy,
+        config: toRoundConfig(config),
+      };
+    } catch (err: any) {
+      console.error(`Error fetching round for ${address}:`, err);
+      return null;
+    }
+  }, [runner]);
+
+  const fetchLotteries = useCallback(async () => {
+    if (!factory) return;
+
+    setIsLoading(true);
+    try {
+      const infos = await factory.getLotteries();
+      const entries = await Promise.all(
+        infos.map(async (info: any) => ({
+          address: info.lottery as string,
+          name: info.name as string,
+          creator: info.creator as string,
+          createdAt: info.createdAt as bigint,
+          asset: await fetchPaymentAsset(new ethers.Contract(info.lottery, CONTRACT_ABI, runner), runner)
+            .catch(() => NATIVE_ASSET),
+          currentRound: await fetchRound(info.lottery),
+        }))
+      );
+      setLotteries(entries);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error fetching lotteries:', err);
+      setError(err.reason || err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [factory, runner, fetchRound]);
+
+  useEffect(() => {
+    fetchLotteries();
+    const interval = setInterval(fetchLotteries, 10000);
+    return () => clearInterval(interval);
+  }, [fetchLotteries]);
+
+  return {
+    factory,
+    lotteries,
+    isLoading,
+    error,
+    fetchLotteries,
+  };
+}
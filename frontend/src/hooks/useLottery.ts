@@ -1,8 +1,12 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { ethers } from 'ethers';
-import { CONTRACT_ADDRESS, CONTRACT_ABI, ENTRY_FEE } from '@/lib/constants';
+import { CONFIDENTIAL_TOKEN_ABI, CONTRACT_ABI, ERC20_ABI, NATIVE_ASSET, type PaymentAsset } from '@/lib/constants';
+import { signPermit, type PermitSignature } from '@/lib/permit';
+import { publicDecrypt } from '@/lib/fhevm';
+import { getReadRunner } from '@/lib/provider';
+import { fetchIndexedPastRounds } from '@/lib/indexer';
 
 // RoundStatus enum matching contract
 export enum RoundStatus {
@@ -12,14 +16,69 @@ export enum RoundStatus {
   Cancelled = 3
 }
 
+// TiePolicy enum matching contract
+export enum TiePolicy {
+  EarliestSubmission = 0,
+  SplitEvenly = 1,
+  RandomTiebreak = 2
+}
+
+// Per-round parameters, snapshotted on-chain when the round starts
+export interface RoundConfig {
+  duration: bigint;
+  entryPrice: bigint;
+  maxParticipants: bigint;
+  maxEntriesPerAddress: number;
+  extensionDuration: bigint;
+  maxExtensions: number;
+  claimWindow: bigint; // Seconds prizes stay claimable before rolling over; 0 never expires
+  feeRolloverBps: number;
+  platformFeeBps: number;
+  convictionShareBps: number;
+  accuracyShareBps: number;
+  calibrationShareBps: number;
+}
+
+export function toRoundConfig(config: any): RoundConfig {
+  return {
+    duration: config.duration,
+    entryPrice: config.entryPrice,
+    maxParticipants: config.maxParticipants,
+    maxEntriesPerAddress: Number(config.maxEntriesPerAddress),
+    extensionDuration: config.extensionDuration,
+    maxExtensions: Number(config.maxExtensions),
+    claimWindow: config.claimWindow,
+    feeRolloverBps: Number(config.feeRolloverBps),
+    platformFeeBps: Number(config.platformFeeBps),
+    convictionShareBps: Number(config.convictionShareBps),
+    accuracyShareBps: Number(config.accuracyShareBps),
+    calibrationShareBps: Number(config.calibrationShareBps),
+  };
+}
+
 export interface RoundData {
   roundId: bigint;
   startTime: bigint;
   endTime: bigint;
   prizePool: bigint;
+  carriedOver: bigint; // Part of prizePool rolled over from earlier rounds
+  sponsored: bigint; // Part of prizePool added by sponsors
   participantCount: bigint;
   scoresComputedCount: bigint;
+  extensionCount: number;
   status: RoundStatus;
+  tiePolicy: TiePolicy;
+  config: RoundConfig;
+}
+
+// Mirrors the contract: an expired short round with entries is extended rather than cancelled
+export function canExtendRound(round: RoundData): boolean {
+  return round.participantCount > BigInt(0) && round.extensionCount < round.config.maxExtensions;
+}
+
+export interface RevealStatus {
+  revealRequested: boolean;
+  winnerIndicesRevealed: boolean;
 }
 
 export interface WinnerData {
@@ -32,49 +91,159 @@ export interface WinnerData {
   score: number;
 }
 
+export interface CoWinnerData {
+  addr: string;
+  category: number;
+  prize: bigint;
+}
+
 export interface PastRound {
   roundId: bigint;
   winningNumber: number;
   winners: WinnerData[];
+  coWinners: CoWinnerData[];
   prizePool: bigint;
+  carriedOver: bigint;
+  sponsored: bigint;
   participantCount: bigint;
+  config: RoundConfig;
+  payoutToken: string; // Confidential token prizes were paid into, or the zero address
+}
+
+export interface Sponsorship {
+  sponsor: string;
+  amount: bigint;
+  message: string;
+}
+
+// Resolve the asset entry fees are paid in: native ETH or the lottery's ERC-20
+export async function fetchPaymentAsset(
+  contract: ethers.Contract,
+  runner: ethers.ContractRunner | null
+): Promise<PaymentAsset> {
+  const tokenAddress: string = await contract.entryToken();
+  if (tokenAddress === ethers.ZeroAddress) return NATIVE_ASSET;
+
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, runner);
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+  return { address: tokenAddress, symbol, decimals: Number(decimals) };
+}
+
+// A settled round with its winners, or null if it never completed
+async function loadPastRound(contract: ethers.Contract, roundId: bigint | number): Promise<PastRound | null> {
+  const roundData = await contract.rounds(roundId);
+  if (!roundData.isSettled) return null;
+
+  const winners = await contract.getRoundWinners(roundId);
+  const coWinners = await contract.getCoWinners(roundId);
+  const config = await contract.getRoundConfig(roundId);
+  const payoutToken: string = await contract.getRoundPayoutToken(roundId);
+  return {
+    roundId: BigInt(roundId),
+    winningNumber: Number(roundData.revealedWinningNumber),
+    winners: winners.map((w: any) => ({
+      addr: w.addr,
+      category: Number(w.category),
+      prize: w.prize,
+      guess: Number(w.guess),
+      confidence: Number(w.confidence),
+      distance: Number(w.distance),
+      score: Number(w.score),
+    })),
+    coWinners: coWinners.map((w: any) => ({
+      addr: w.addr,
+      category: Number(w.category),
+      prize: w.prize,
+    })),
+    prizePool: roundData.prizePool,
+    carriedOver: roundData.carriedOver,
+    sponsored: roundData.sponsored,
+    participantCount: roundData.participantCount,
+    config: toRoundConfig(config),
+    payoutToken,
+  };
 }
 
-export function useLottery(signer: ethers.Signer | null) {
+const POLL_INTERVAL_MS = 10000;
+// Catches anything a dropped subscription missed
+const RESYNC_INTERVAL_MS = 60000;
+
+export function useLottery(signer: ethers.Signer | null, contractAddress: string) {
   const [contract, setContract] = useState<ethers.Contract | null>(null);
   const [currentRound, setCurrentRound] = useState<RoundData | null>(null);
-  const [hasEntered, setHasEntered] = useState(false);
-  const [timeRemaining, setTimeRemaining] = useState(0);
+  const [revealStatus, setRevealStatus] = useState<RevealStatus | null>(null);
+  // Participant indices of the connected address's entries in the current round
+  const [entryIndices, setEntryIndices] = useState<bigint[]>([]);
+  const [claimable, setClaimable] = useState<bigint>(BigInt(0));
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [pastRounds, setPastRounds] = useState<PastRound[]>([]);
+  const [sponsorships, setSponsorships] = useState<Sponsorship[]>([]);
+  const [asset, setAsset] = useState<PaymentAsset>(NATIVE_ASSET);
+  // Latest block timestamp and the local time it was seen, so the countdown follows chain time
+  const [blockClock, setBlockClock] = useState<{ timestamp: number; seenAt: number } | null>(null);
+  // Local time, ticked every second to re-derive the countdown
+  const [localNow, setLocalNow] = useState(() => Date.now() / 1000);
+  const [account, setAccount] = useState<string | null>(null);
+  const [isSubscribed, setIsSubscribed] = useState(false);
 
+  // Reads and event subscriptions use the read-only RPC when one is configured, so visitors
+  // without a wallet still see live rounds; the signer is only needed for transactions
   useEffect(() => {
-    if (signer && CONTRACT_ADDRESS) {
-      const lotteryContract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      setContract(lotteryContract);
-    }
+    const runner = getReadRunner(signer);
+    setContract(runner && contractAddress ? new ethers.Contract(contractAddress, CONTRACT_ABI, runner) : null);
+  }, [signer, contractAddress]);
+
+  const writer = useMemo(
+    () => (contract && signer ? (contract.connect(signer) as ethers.Contract) : null),
+    [contract, signer]
+  );
+
+  useEffect(() => {
+    setAccount(null);
+    signer?.getAddress().then(setAccount).catch(() => setAccount(null));
   }, [signer]);
 
+  useEffect(() => {
+    if (!contract) return;
+
+    fetchPaymentAsset(contract, contract.runner)
+      .then(setAsset)
+      .catch((err) => console.error('Error fetching entry token:', err));
+  }, [contract]);
+
   const fetchRoundData = useCallback(async () => {
     if (!contract) return;
 
     try {
       const round = await contract.getCurrentRound();
+      const tiePolicy = await contract.getRoundTiePolicy(round.roundId);
+      const config = await contract.getRoundConfig(round.roundId);
       setCurrentRound({
         roundId: round.roundId,
         startTime: round.startTime,
         endTime: round.endTime,
         prizePool: round.prizePool,
+        carriedOver: round.carriedOver,
+        sponsored: round.sponsored,
         participantCount: round.participantCount,
         scoresComputedCount: round.scoresComputedCount,
+        extensionCount: Number(round.extensionCount),
         status: Number(round.status) as RoundStatus,
+        tiePolicy: Number(tiePolicy) as TiePolicy,
+        config: toRoundConfig(config),
       });
 
-      // Calculate time remaining from endTime
-      const now = Math.floor(Date.now() / 1000);
-      const remaining = Math.max(0, Number(round.endTime) - now);
-      setTimeRemaining(remaining);
+      if (Number(round.status) === RoundStatus.Settling) {
+        const reveal = await contract.getRevealStatus(round.roundId);
+        setRevealStatus({
+          revealRequested: reveal.revealRequested,
+          winnerIndicesRevealed: reveal.winnerIndicesRevealed,
+        });
+      } else {
+        setRevealStatus(null);
+      }
+
     } catch (err: any) {
       console.error('Error fetching round data:', err);
     }
@@ -85,20 +254,107 @@ export function useLottery(signer: ethers.Signer | null) {
 
     try {
       const roundId = await contract.currentRoundId();
-      const entered = await contract.hasParticipated(roundId, address);
-      setHasEntered(entered);
+      const indices: bigint[] = await contract.getParticipantIndices(roundId, address);
+      setEntryIndices([...indices]);
     } catch (err: any) {
       console.error('Error checking entry:', err);
     }
   }, [contract]);
 
+  const checkClaimable = useCallback(async (address: string) => {
+    if (!contract || !address) return;
+
+    try {
+      setClaimable(await contract.claimable(address));
+    } catch (err: any) {
+      console.error('Error checking claimable balance:', err);
+    }
+  }, [contract]);
+
+  const claim = useCallback(async () => {
+    if (!writer || !signer) return false;
+
+    setIsLoading(true);
+    try {
+      const tx = await writer.claim();
+      await tx.wait();
+      await checkClaimable(await signer.getAddress());
+      return true;
+    } catch (err: any) {
+      console.error('Error claiming balance:', err);
+      setError(err.reason || err.message);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [writer, signer, checkClaimable]);
+
+  // Encrypted balance handle in a confidential payout token, null if nothing was ever paid
+  const getConfidentialBalanceHandle = useCallback(async (tokenAddress: string, address: string) => {
+    if (!signer || !address) return null;
+
+    try {
+      const token = new ethers.Contract(tokenAddress, CONFIDENTIAL_TOKEN_ABI, signer);
+      const handle: string = await token.confidentialBalanceOf(address);
+      return handle === ethers.ZeroHash ? null : handle;
+    } catch (err: any) {
+      console.error('Error getting confidential balance:', err);
+      return null;
+    }
+  }, [signer]);
+
+  // Handles of every entry the address holds in the current round, in submission order
+  const getEntryHandles = useCallback(async (address: string) => {
+    if (!contract || !address) return null;
+
+    try {
+      const roundId = await contract.currentRoundId();
+      const indices: bigint[] = await contract.getParticipantIndices(roundId, address);
+      return Promise.all(indices.map(async (index) => {
+        const entry = await contract.getEntryHandles(roundId, index);
+        return {
+          encryptedGuess: entry.encryptedGuess as string,
+          encryptedConfidence: entry.encryptedConfidence as string,
+        };
+      }));
+    } catch (err: any) {
+      console.error('Error getting entry handles:', err);
+      return null;
+    }
+  }, [contract]);
+
+  const getScoreHandles = useCallback(async (roundId: bigint, address: string) => {
+    if (!contract || !address) return null;
+
+    try {
+      const indices: bigint[] = await contract.getParticipantIndices(roundId, address);
+      const scores = await Promise.all(indices.map((index) => contract.getScoreHandles(roundId, index)));
+
+      // Only entries the scoring batches have reached
+      const scored = scores
+        .map((entry, i) => ({ entry, participantIndex: indices[i] }))
+        .filter(({ entry }) => entry.scoresComputed);
+      if (scored.length === 0) return null;
+
+      return scored.map(({ entry, participantIndex }) => ({
+        participantIndex,
+        encryptedDistance: entry.encryptedDistance as string,
+        encryptedConvictionScore: entry.encryptedConvictionScore as string,
+        encryptedCalibrationError: entry.encryptedCalibrationError as string,
+      }));
+    } catch (err: any) {
+      console.error('Error getting score handles:', err);
+      return null;
+    }
+  }, [contract]);
+
   const submitEntry = useCallback(async (
     encryptedGuess: string,
     encryptedConfidence: string,
     inputProof: string
   ) => {
-    if (!contract) {
-      setError('Contract not initialized');
+    if (!contract || !writer) {
+      setError('Connect a wallet to enter');
       return false;
     }
 
@@ -106,14 +362,23 @@ export function useLottery(signer: ethers.Signer | null) {
     setError(null);
 
     try {
-      const tx = await contract.submitPrediction(
-        encryptedGuess,
-        encryptedConfidence,
-        inputProof,
-        { value: ethers.parseEther(ENTRY_FEE) }
-      );
+      // Read the price on-chain so a config change never sends a stale fee
+      const roundId = await contract.currentRoundId();
+      const config = await contract.getRoundConfig(roundId);
+
+      let tx;
+      if (!asset.address) {
+        tx = await writer.submitPrediction(
+          encryptedGuess,
+          encryptedConfidence,
+          inputProof,
+          { value: config.entryPrice }
+        );
+      } else {
+        tx = await submitTokenEntry(encryptedGuess, encryptedConfidence, inputProof, config.entryPrice);
+      }
       await tx.wait();
-      setHasEntered(true);
+      if (signer) await checkEntry(await signer.getAddress());
       await fetchRoundData();
       return true;
     } catch (err: any) {
@@ -123,14 +388,87 @@ export function useLottery(signer: ethers.Signer | null) {
     } finally {
       setIsLoading(false);
     }
-  }, [contract, fetchRoundData]);
+  }, [contract, writer, signer, asset, checkEntry, fetchRoundData]);
+
+  // Messages are only emitted, so sponsorships are read back from RoundSponsored events
+  const fetchSponsorships = useCallback(async (roundId: bigint) => {
+    if (!contract) return;
+
+    try {
+      const events = await contract.queryFilter(contract.filters.RoundSponsored(roundId));
+      setSponsorships(events.map((event) => {
+        const args = (event as ethers.EventLog).args;
+        return { sponsor: args.sponsor, amount: args.amount, message: args.message };
+      }));
+    } catch (err: any) {
+      console.error('Error fetching sponsorships:', err);
+    }
+  }, [contract]);
+
+  const sponsorRound = useCallback(async (amount: bigint, message: string) => {
+    if (!writer || !currentRound) return false;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const tx = await writer.sponsorRound(currentRound.roundId, message, { value: amount });
+      await tx.wait();
+      await fetchRoundData();
+      return true;
+    } catch (err: any) {
+      console.error('Error sponsoring round:', err);
+      setError(err.reason || err.message);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [writer, currentRound, fetchRoundData]);
+
+  // Token entries reuse an existing allowance, else sign a permit, else fall back to approve
+  const submitTokenEntry = async (
+    encryptedGuess: string,
+    encryptedConfidence: string,
+    inputProof: string,
+    price: bigint
+  ) => {
+    const token = new ethers.Contract(asset.address!, ERC20_ABI, signer);
+    const owner = await signer!.getAddress();
+
+    if ((await token.allowance(owner, contractAddress)) < price) {
+      // Only a token without permit falls back to approve. A reverting entry is rethrown as is,
+      // so it does not cost an approval on top.
+      let permit: PermitSignature | null = null;
+      try {
+        permit = await signPermit(token, signer!, contractAddress, price);
+      } catch (err: any) {
+        if (err.code === 'ACTION_REJECTED') throw err;
+        console.warn('Permit unavailable, falling back to approve:', err);
+      }
+
+      if (permit) {
+        return writer!.submitPredictionWithPermit(
+          encryptedGuess,
+          encryptedConfidence,
+          inputProof,
+          permit.deadline,
+          permit.v,
+          permit.r,
+          permit.s
+        );
+      }
+      const approveTx = await token.approve(contractAddress, price);
+      await approveTx.wait();
+    }
+
+    return writer!.submitPrediction(encryptedGuess, encryptedConfidence, inputProof);
+  };
 
   const settleRound = useCallback(async () => {
-    if (!contract) return false;
+    if (!writer) return false;
 
     setIsLoading(true);
     try {
-      const tx = await contract.settleRound();
+      const tx = await writer.settleRound();
       await tx.wait();
       await fetchRoundData();
       return true;
@@ -141,14 +479,32 @@ export function useLottery(signer: ethers.Signer | null) {
     } finally {
       setIsLoading(false);
     }
-  }, [contract, fetchRoundData]);
+  }, [writer, fetchRoundData]);
+
+  const extendRound = useCallback(async () => {
+    if (!writer) return false;
+
+    setIsLoading(true);
+    try {
+      const tx = await writer.extendRound();
+      await tx.wait();
+      await fetchRoundData();
+      return true;
+    } catch (err: any) {
+      console.error('Error extending round:', err);
+      setError(err.reason || err.message);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [writer, fetchRoundData]);
 
   const cancelRound = useCallback(async () => {
-    if (!contract) return false;
+    if (!writer) return false;
 
     setIsLoading(true);
     try {
-      const tx = await contract.cancelRound();
+      const tx = await writer.cancelRound();
       await tx.wait();
       await fetchRoundData();
       return true;
@@ -159,14 +515,14 @@ export function useLottery(signer: ethers.Signer | null) {
     } finally {
       setIsLoading(false);
     }
-  }, [contract, fetchRoundData]);
+  }, [writer, fetchRoundData]);
 
   const computeScoresBatch = useCallback(async (batchStart: number, batchSize: number) => {
-    if (!contract) return false;
+    if (!writer) return false;
 
     setIsLoading(true);
     try {
-      const tx = await contract.computeScoresBatch(batchStart, batchSize);
+      const tx = await writer.computeScoresBatch(batchStart, batchSize);
       await tx.wait();
       await fetchRoundData();
       return true;
@@ -177,7 +533,7 @@ export function useLottery(signer: ethers.Signer | null) {
     } finally {
       setIsLoading(false);
     }
-  }, [contract, fetchRoundData]);
+  }, [writer, fetchRoundData]);
 
   const getWinners = useCallback(async (roundId: bigint): Promise<WinnerData[] | null> => {
     if (!contract) return null;
@@ -203,30 +559,22 @@ export function useLottery(signer: ethers.Signer | null) {
     if (!contract) return;
 
     try {
+      const indexed = await fetchIndexedPastRounds(contractAddress, count).catch((err) => {
+        console.error('Indexer unavailable, reading past rounds from the chain:', err);
+        return null;
+      });
+      if (indexed) {
+        setPastRounds(indexed);
+        return;
+      }
+
       const currentId = await contract.currentRoundId();
       const rounds: PastRound[] = [];
       
       for (let i = Number(currentId) - 1; i >= 1 && rounds.length < count; i--) {
         try {
-          const roundData = await contract.rounds(i);
-          if (roundData.isSettled) {
-            const winners = await contract.getRoundWinners(i);
-            rounds.push({
-              roundId: BigInt(i),
-              winningNumber: Number(roundData.revealedWinningNumber),
-              winners: winners.map((w: any) => ({
-                addr: w.addr,
-                category: Number(w.category),
-                prize: w.prize,
-                guess: Number(w.guess),
-                confidence: Number(w.confidence),
-                distance: Number(w.distance),
-                score: Number(w.score),
-              })),
-              prizePool: roundData.prizePool,
-              participantCount: roundData.participantCount,
-            });
-          }
+          const round = await loadPastRound(contract, i);
+          if (round) rounds.push(round);
         } catch {
           // Skip rounds that fail to load
         }
@@ -236,38 +584,246 @@ export function useLottery(signer: ethers.Signer | null) {
     } catch (err: any) {
       console.error('Error fetching past rounds:', err);
     }
-  }, [contract]);
+  }, [contract, contractAddress]);
+
+  const requestWinnerReveal = useCallback(async () => {
+    if (!writer) return false;
+
+    setIsLoading(true);
+    try {
+      const tx = await writer.requestWinnerReveal();
+      await tx.wait();
+      await fetchRoundData();
+      return true;
+    } catch (err: any) {
+      console.error('Error requesting winner reveal:', err);
+      setError(err.reason || err.message);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [writer, fetchRoundData]);
+
+  const revealWinnerIndices = useCallback(async () => {
+    if (!contract || !writer) return false;
+
+    setIsLoading(true);
+    try {
+      const roundId = await contract.currentRoundId();
+      // Order: convictionIdx, accuracyIdx, calibrationIdx, then one co-winner mask per category
+      const handles: string[] = [...(await contract.getWinnerIndexHandles(roundId))];
+
+      const { clearValues, decryptionProof } = await publicDecrypt(handles);
+
+      const tx = await writer.revealWinnerIndices(
+        clearValues[0],
+        clearValues[1],
+        clearValues[2],
+        clearValues.slice(3, 6),
+        decryptionProof
+      );
+      await tx.wait();
+      await fetchRoundData();
+      return true;
+    } catch (err: any) {
+      console.error('Error revealing winner indices:', err);
+      setError(err.reason || err.message);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contract, writer, fetchRoundData]);
+
+  const finalizeRound = useCallback(async () => {
+    if (!contract || !writer) return false;
+
+    setIsLoading(true);
+    try {
+      const roundId = await contract.currentRoundId();
+      // Order: winningNumber, convictionIdx, accuracyIdx, calibrationIdx,
+      //        then for each winner: guess, confidence, distance
+      const handles: string[] = [...(await contract.getFinalizationHandles(roundId))];
+
+      const { clearValues, decryptionProof } = await publicDecrypt(handles);
+      const winnerData = (offset: number) => [
+        clearValues[4 + offset],
+        clearValues[7 + offset],
+        clearValues[10 + offset],
+      ];
+
+      const tx = await writer.finalizeRound(
+        clearValues[0],
+        clearValues[1],
+        clearValues[2],
+        clearValues[3],
+        winnerData(0),
+        winnerData(1),
+        winnerData(2),
+        decryptionProof
+      );
+      await tx.wait();
+      await fetchRoundData();
+      await fetchPastRounds();
+      return true;
+    } catch (err: any) {
+      console.error('Error finalizing round:', err);
+      setError(err.reason || err.message);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [contract, writer, fetchRoundData, fetchPastRounds]);
 
   useEffect(() => {
     fetchRoundData();
     fetchPastRounds();
-    const interval = setInterval(fetchRoundData, 10000);
-    return () => clearInterval(interval);
   }, [fetchRoundData, fetchPastRounds]);
 
+  // Apply contract events to the loaded state as they arrive
   useEffect(() => {
-    if (timeRemaining <= 0) return;
+    if (!contract) return;
 
-    const interval = setInterval(() => {
-      setTimeRemaining(prev => Math.max(0, prev - 1));
-    }, 1000);
+    const updateRound = (roundId: bigint, update: (round: RoundData) => Partial<RoundData>) =>
+      setCurrentRound(prev => (prev && prev.roundId === roundId ? { ...prev, ...update(prev) } : prev));
+
+    const listeners: [string, (...args: any[]) => void][] = [
+      ['RoundStarted', () => {
+        // A new round needs its config, tie policy and rollover seed, which the event does not carry
+        setEntryIndices([]);
+        setSponsorships([]);
+        fetchRoundData();
+      }],
+      ['ParticipantJoined', (roundId: bigint, participant: string, participantIndex: bigint) => {
+        // Skip entries a fetch already counted
+        updateRound(roundId, round => (participantIndex < round.participantCount ? {} : {
+          participantCount: participantIndex + BigInt(1),
+          prizePool: round.prizePool + round.config.entryPrice,
+        }));
+        if (account && participant.toLowerCase() === account.toLowerCase()) {
+          setEntryIndices(prev => (prev.includes(participantIndex) ? prev : [...prev, participantIndex]));
+        }
+      }],
+      ['RoundSponsored', (roundId: bigint, sponsor: string, amount: bigint, message: string) => {
+        // Sponsorships carry no index to dedupe against a fetch, so the totals are read back
+        fetchRoundData();
+        setSponsorships(prev => [...prev, { sponsor, amount, message }]);
+      }],
+      ['RoundExtended', (roundId: bigint, newEndTime: bigint, extensionCount: bigint) => {
+        updateRound(roundId, () => ({ endTime: newEndTime, extensionCount: Number(extensionCount) }));
+      }],
+      ['RoundSettling', (roundId: bigint) => {
+        updateRound(roundId, () => ({ status: RoundStatus.Settling }));
+        setRevealStatus({ revealRequested: false, winnerIndicesRevealed: false });
+      }],
+      ['ScoresComputed', () => {
+        // Overlapping batches skip scored entries, so the count has to be read back
+        fetchRoundData();
+      }],
+      ['WinnerRevealRequested', () => {
+        setRevealStatus(prev => ({ winnerIndicesRevealed: false, ...prev, revealRequested: true }));
+      }],
+      ['WinnerIndicesRevealed', () => {
+        setRevealStatus(prev => ({ revealRequested: true, ...prev, winnerIndicesRevealed: true }));
+      }],
+      ['RoundCompleted', async (roundId: bigint) => {
+        updateRound(roundId, () => ({ status: RoundStatus.Completed }));
+        try {
+          const round = await loadPastRound(contract, roundId);
+          if (round) setPastRounds(prev => [round, ...prev.filter(r => r.roundId !== roundId)]);
+        } catch (err) {
+          console.error('Error loading completed round:', err);
+        }
+      }],
+      ['RoundCancelled', (roundId: bigint) => {
+        updateRound(roundId, () => ({ status: RoundStatus.Cancelled }));
+      }],
+    ];
+
+    let active = true;
+    Promise.all(listeners.map(([event, listener]) => contract.on(event, listener)))
+      .then(() => active && setIsSubscribed(true))
+      .catch((err) => {
+        console.error('Event subscription failed, falling back to polling:', err);
+        if (active) setIsSubscribed(false);
+      });
 
+    return () => {
+      active = false;
+      setIsSubscribed(false);
+      for (const [event, listener] of listeners) contract.off(event, listener);
+    };
+  }, [contract, account, fetchRoundData]);
+
+  // Track the latest block so the countdown uses chain time rather than the local clock
+  useEffect(() => {
+    const provider = contract?.runner?.provider;
+    if (!provider) return;
+
+    const onBlock = async (blockNumber: number | 'latest') => {
+      try {
+        const block = await provider.getBlock(blockNumber);
+        if (block) setBlockClock({ timestamp: block.timestamp, seenAt: Date.now() / 1000 });
+      } catch (err) {
+        console.error('Error fetching block:', err);
+      }
+    };
+
+    onBlock('latest');
+    provider.on('block', onBlock);
+    return () => {
+      provider.off('block', onBlock);
+    };
+  }, [contract]);
+
+  // Polling is only a fallback: a slow resync when events are flowing, the old 10s poll when not
+  useEffect(() => {
+    const interval = setInterval(fetchRoundData, isSubscribed ? RESYNC_INTERVAL_MS : POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchRoundData, isSubscribed]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setLocalNow(Date.now() / 1000), 1000);
     return () => clearInterval(interval);
-  }, [timeRemaining]);
+  }, []);
+
+  // Derived during render rather than in an effect, so a newly loaded round is never seen
+  // with a countdown left over from the previous one
+  const endTime = currentRound?.endTime;
+  const timeRemaining = useMemo(() => {
+    if (endTime === undefined) return 0;
+    // Chain time advances with the local clock between blocks
+    const now = blockClock ? blockClock.timestamp + Math.max(0, localNow - blockClock.seenAt) : localNow;
+    return Math.max(0, Math.floor(Number(endTime) - now));
+  }, [endTime, blockClock, localNow]);
 
   return {
     contract,
     currentRound,
-    hasEntered,
+    revealStatus,
+    entryIndices,
+    claimable,
     timeRemaining,
     isLoading,
     error,
     pastRounds,
+    asset,
+    sponsorships,
     submitEntry,
+    sponsorRound,
+    fetchSponsorships,
     settleRound,
+    extendRound,
     cancelRound,
     computeScoresBatch,
+    requestWinnerReveal,
+    revealWinnerIndices,
+    finalizeRound,
     checkEntry,
+    checkClaimable,
+    claim,
+    getConfidentialBalanceHandle,
+    getEntryHandles,
+    getScoreHandles,
     fetchRoundData,
     getWinners,
     fetchPastRounds,
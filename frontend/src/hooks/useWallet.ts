@@ -1,18 +1,11 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { ethers } from 'ethers';
-import { SEPOLIA_CHAIN_ID } from '@/lib/constants';
-
-// Type guard for ethereum provider
-declare const window: Window & {
-  ethereum?: {
-    isMetaMask?: boolean;
-    request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
-    on: (event: string, callback: (...args: unknown[]) => void) => void;
-    removeListener: (event: string, callback: (...args: unknown[]) => void) => void;
-  };
-};
+import { NETWORK } from '@/lib/constants';
+import { chainIdHex } from '@shared/networks';
+import { resetFhevmInstance } from '@/lib/fhevm';
+import { discoverWallets, getLastWallet, setLastWallet, type EIP1193Provider, type WalletOption } from '@/lib/wallets';
 
 interface WalletState {
   address: string | null;
@@ -21,135 +14,178 @@ interface WalletState {
   chainId: number | null;
   provider: ethers.BrowserProvider | null;
   signer: ethers.Signer | null;
+  wallet: WalletOption | null; // Wallet the session is connected through
   error: string | null;
 }
 
-export function useWallet() {
-  const [state, setState] = useState<WalletState>({
-    address: null,
-    isConnected: false,
+const DISCONNECTED: WalletState = {
+  address: null,
+  isConnected: false,
+  isConnecting: false,
+  chainId: null,
+  provider: null,
+  signer: null,
+  wallet: null,
+  error: null,
+};
+
+// Read the wallet's current account and chain without prompting; null if it has no authorized account
+async function readSession(wallet: WalletOption): Promise<Partial<WalletState> | null> {
+  // A fresh BrowserProvider each time, since ethers pins the network it first sees
+  const provider = new ethers.BrowserProvider(wallet.provider);
+  const accounts = await provider.listAccounts();
+  if (accounts.length === 0) return null;
+
+  const signer = await provider.getSigner();
+  const network = await provider.getNetwork();
+  return {
+    address: await signer.getAddress(),
+    isConnected: true,
     isConnecting: false,
-    chainId: null,
-    provider: null,
-    signer: null,
+    chainId: Number(network.chainId),
+    provider,
+    signer,
+    wallet,
     error: null,
-  });
+  };
+}
 
-  const checkConnection = useCallback(async () => {
-    if (typeof window === 'undefined' || !window.ethereum) {
-      return;
-    }
+// EIP-1193 providers reject with plain { code, message } objects as often as with Errors
+function errorField(error: unknown, field: 'code' | 'message'): unknown {
+  return typeof error === 'object' && error !== null && field in error
+    ? (error as Record<typeof field, unknown>)[field]
+    : undefined;
+}
 
-    try {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const accounts = await provider.listAccounts();
-      
-      if (accounts.length > 0) {
-        const signer = await provider.getSigner();
-        const address = await signer.getAddress();
-        const network = await provider.getNetwork();
-        
-        setState({
-          address,
-          isConnected: true,
-          isConnecting: false,
-          chainId: Number(network.chainId),
-          provider,
-          signer,
-          error: null,
-        });
-      }
-    } catch (error) {
-      console.error('Error checking connection:', error);
+// Ask the wallet to switch to the dApp's network, adding it from the registry if the wallet lacks it
+async function switchToNetwork(provider: EIP1193Provider) {
+  const chainId = chainIdHex(NETWORK);
+  try {
+    await provider.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+  } catch (switchError: unknown) {
+    if (errorField(switchError, 'code') === 4902) {
+      await provider.request({
+        method: 'wallet_addEthereumChain',
+        params: [{
+          chainId,
+          chainName: NETWORK.label,
+          nativeCurrency: NETWORK.nativeCurrency,
+          rpcUrls: [NETWORK.rpcUrl],
+          ...(NETWORK.explorerUrl ? { blockExplorerUrls: [NETWORK.explorerUrl] } : {}),
+        }],
+      });
     }
-  }, []);
+  }
+}
 
-  const connect = useCallback(async () => {
-    if (typeof window === 'undefined' || !window.ethereum) {
-      setState(prev => ({ ...prev, error: 'Please install MetaMask' }));
+export function useWallet() {
+  const [state, setState] = useState<WalletState>(DISCONNECTED);
+  const [wallets, setWallets] = useState<WalletOption[]>([]);
+  const restored = useRef(false);
+
+  useEffect(() => discoverWallets(setWallets), []);
+
+  // Reconnect silently to the wallet used last time, once it has announced itself
+  useEffect(() => {
+    if (restored.current) return;
+    const wallet = wallets.find(w => w.info.rdns === getLastWallet());
+    if (!wallet) return;
+
+    restored.current = true;
+    readSession(wallet)
+      .then(session => session && setState(prev => (prev.isConnected ? prev : { ...prev, ...session })))
+      .catch(error => console.error('Error restoring wallet:', error));
+  }, [wallets]);
+
+  const connect = useCallback(async (choice?: WalletOption) => {
+    const wallet = choice ?? (wallets.length === 1 ? wallets[0] : null);
+    if (!wallet) {
+      setState(prev => ({
+        ...prev,
+        error: wallets.length === 0 ? 'No wallet found. Install a browser wallet to connect.' : 'Choose a wallet to connect',
+      }));
       return;
     }
 
+    restored.current = true;
     setState(prev => ({ ...prev, isConnecting: true, error: null }));
 
     try {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      await provider.send('eth_requestAccounts', []);
-      
-      const signer = await provider.getSigner();
-      const address = await signer.getAddress();
-      const network = await provider.getNetwork();
-
-      if (Number(network.chainId) !== SEPOLIA_CHAIN_ID) {
-        try {
-          await window.ethereum.request({
-            method: 'wallet_switchEthereumChain',
-            params: [{ chainId: `0x${SEPOLIA_CHAIN_ID.toString(16)}` }],
-          });
-        } catch (switchError: any) {
-          if (switchError.code === 4902) {
-            await window.ethereum.request({
-              method: 'wallet_addEthereumChain',
-              params: [{
-                chainId: `0x${SEPOLIA_CHAIN_ID.toString(16)}`,
-                chainName: 'Sepolia Testnet',
-                nativeCurrency: { name: 'ETH', symbol: 'ETH', decimals: 18 },
-                rpcUrls: ['https://sepolia.infura.io/v3/'],
-                blockExplorerUrls: ['https://sepolia.etherscan.io'],
-              }],
-            });
-          }
-        }
+      await wallet.provider.request({ method: 'eth_requestAccounts' });
+
+      const chainId = Number(await wallet.provider.request({ method: 'eth_chainId' }));
+      if (chainId !== NETWORK.chainId) {
+        await switchToNetwork(wallet.provider);
       }
 
-      setState({
-        address,
-        isConnected: true,
-        isConnecting: false,
-        chainId: Number(network.chainId),
-        provider,
-        signer,
-        error: null,
-      });
-    } catch (error: any) {
+      const session = await readSession(wallet);
+      if (!session) throw new Error('No account was authorized');
+
+      setLastWallet(wallet.info.rdns);
+      setState({ ...DISCONNECTED, ...session });
+    } catch (error: unknown) {
+      const message = errorField(error, 'message');
       setState(prev => ({
         ...prev,
         isConnecting: false,
-        error: error.message || 'Failed to connect',
+        error: typeof message === 'string' && message ? message : 'Failed to connect',
       }));
     }
-  }, []);
+  }, [wallets]);
 
   const disconnect = useCallback(() => {
-    setState({
-      address: null,
-      isConnected: false,
-      isConnecting: false,
-      chainId: null,
-      provider: null,
-      signer: null,
-      error: null,
-    });
+    setLastWallet(null);
+    setState(DISCONNECTED);
+    // Forget the decryption keypair and signature along with the session
+    resetFhevmInstance();
   }, []);
 
+  // Follow account and chain changes in the connected wallet without reloading the page
   useEffect(() => {
-    checkConnection();
+    const wallet = state.wallet;
+    if (!wallet) return;
+
+    const refresh = async () => {
+      try {
+        const session = await readSession(wallet);
+        if (session) {
+          setState(prev => (prev.wallet === wallet ? { ...prev, ...session } : prev));
+        } else {
+          // Every account was disconnected from inside the wallet
+          setLastWallet(null);
+          setState(prev => (prev.wallet === wallet ? DISCONNECTED : prev));
+        }
+      } catch (error) {
+        console.error('Error refreshing wallet:', error);
+      }
+    };
 
-    if (typeof window !== 'undefined' && window.ethereum) {
-      window.ethereum.on('accountsChanged', checkConnection);
-      window.ethereum.on('chainChanged', () => window.location.reload());
+    wallet.provider.on('accountsChanged', refresh);
+    wallet.provider.on('chainChanged', refresh);
 
-      return () => {
-        window.ethereum?.removeListener('accountsChanged', checkConnection);
-        window.ethereum?.removeListener('chainChanged', () => {});
-      };
+    return () => {
+      wallet.provider.removeListener('accountsChanged', refresh);
+      wallet.provider.removeListener('chainChanged', refresh);
+    };
+  }, [state.wallet]);
+
+  // The FHEVM instance and decryption session belong to one chain. Drop them when the wallet
+  // switches to another chain. A closed session has no chain id, which is not a switch;
+  // disconnect() does its own cleanup.
+  const sessionChainId = useRef<number | null>(null);
+  useEffect(() => {
+    if (state.chainId === null) return;
+    if (sessionChainId.current !== null && sessionChainId.current !== state.chainId) {
+      resetFhevmInstance();
     }
-  }, [checkConnection]);
+    sessionChainId.current = state.chainId;
+  }, [state.chainId]);
 
   return {
     ...state,
+    wallets,
     connect,
     disconnect,
-    isWrongNetwork: state.chainId !== null && state.chainId !== SEPOLIA_CHAIN_ID,
+    isWrongNetwork: state.chainId !== null && state.chainId !== NETWORK.chainId,
   };
 }
@@ -1,31 +1,75 @@
 import CONTRACT_ABI_JSON from './abi.json';
+import FACTORY_ABI_JSON from './factoryAbi.json';
+import { DEFAULT_NETWORK, getNetwork } from '@shared/networks';
 
-export const SEPOLIA_CHAIN_ID = 11155111;
+// Chain the dApp reads from and asks wallets to switch to, by its name in shared/networks.ts
+export const NETWORK = getNetwork(process.env.NEXT_PUBLIC_NETWORK || DEFAULT_NETWORK);
 
-// Deployed contract address on Sepolia
-export const CONTRACT_ADDRESS = '0x4C80cf40A814C8D58fFF874E62A51fd2e677Ee4E';
+// PrivLottery shown on the home page; the deploy scripts print the override for a new deployment
+export const CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_CONTRACT_ADDRESS || NETWORK.lotteryAddress;
 
-export const ENTRY_FEE = '0.001';
+// PrivLotteryFactory registry listed in the lobby, printed by `npm run deploy:factory:sepolia`
+export const FACTORY_ADDRESS = process.env.NEXT_PUBLIC_FACTORY_ADDRESS || NETWORK.factoryAddress;
 
-export const MAX_GUESS = 1023;
-export const MAX_CONFIDENCE = 100;
+// Read-only JSON-RPC endpoint so visitors without a wallet see live rounds
+export const RPC_URL = process.env.NEXT_PUBLIC_RPC_URL || '';
+
+// Round history API started with `npm run indexer:local`; past rounds are read from the chain when unset
+export const INDEXER_URL = process.env.NEXT_PUBLIC_INDEXER_URL || '';
+
+export { MAX_GUESS, MAX_CONFIDENCE } from '@shared/scoring';
 
 export const WINNER_CATEGORIES = {
   CONVICTION_WEIGHTED: {
     name: 'Conviction Weighted',
     description: 'Strongest combination of closeness and confidence',
-    share: '50%',
   },
   RAW_ACCURACY: {
     name: 'Raw Accuracy',
     description: 'Closest guess, regardless of confidence',
-    share: '30%',
   },
   CALIBRATION: {
     name: 'Best Calibration',
     description: 'Confidence most closely matched actual accuracy',
-    share: '20%',
   },
 };
 
+// Indexed by the contract's TiePolicy enum
+export const TIE_POLICIES = [
+  { name: 'Earliest Entry', description: 'Equal scores go to the entry submitted first' },
+  { name: 'Split Evenly', description: 'Entries tied with a winner share the category prize' },
+  { name: 'Random Tiebreak', description: 'Equal scores are ordered by a hidden encrypted random seed' },
+];
+
+// Participants scored per computeScoresBatch call; larger batches exceed the FHE
+// per-transaction compute limit. SplitEvenly also tracks ties, so fewer entries fit.
+export const SCORE_BATCH_SIZE = 3;
+export const SPLIT_EVENLY_SCORE_BATCH_SIZE = 2;
+
 export const CONTRACT_ABI = CONTRACT_ABI_JSON;
+export const FACTORY_ABI = FACTORY_ABI_JSON;
+
+// Just what the app needs from an entry-fee token, including EIP-2612 permit
+export const ERC20_ABI = [
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function nonces(address owner) view returns (uint256)',
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+];
+
+// Encrypted-balance token that confidential prizes are paid into
+export const CONFIDENTIAL_TOKEN_ABI = [
+  'function confidentialBalanceOf(address account) view returns (bytes32)',
+];
+
+// Asset a lottery's entry fees, prizes and refunds are denominated in
+export interface PaymentAsset {
+  address: string | null; // null for native ETH
+  symbol: string;
+  decimals: number;
+}
+
+export const NATIVE_ASSET: PaymentAsset = { address: null, symbol: 'ETH', decimals: 18 };
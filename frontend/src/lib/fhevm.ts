@@ -1,17 +1,36 @@
 'use client';
 
-import { BrowserProvider } from 'ethers';
+import { AbiCoder, BrowserProvider, concat, solidityPacked, type Signer } from 'ethers';
 import { initFhevm, createInstance, type FhevmInstance } from 'fhevmjs';
+import { NETWORK } from '@/lib/constants';
+import { READ_RPC_URL } from '@/lib/provider';
 
 let fhevmInstance: FhevmInstance | null = null;
 let isInitialized = false;
 
-// FHEVM Configuration for Sepolia
-const FHEVM_CONFIG = {
-  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
-  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
-  gatewayUrl: 'https://gateway.testnet.zama.org',
-};
+// Reencryption keypair and EIP-712 signature, reused so the user only signs once per contract
+interface ReencryptSession {
+  contractAddress: string;
+  userAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+}
+let reencryptSession: ReencryptSession | null = null;
+
+// Coprocessor addresses and services from the network registry; "mock" on the hardhat node,
+// where fhevmMock.ts serves every call below instead of fhevmjs and the relayer
+const FHEVM_CONFIG = NETWORK.fhevm;
+
+// Loaded on demand so the mock stays out of bundles for live networks
+function loadMock() {
+  return import('@/lib/fhevmMock');
+}
+
+function getFhevmConfig() {
+  if (FHEVM_CONFIG === 'mock') throw new Error(`${NETWORK.label} uses the fhevm mock, not fhevmjs`);
+  return FHEVM_CONFIG;
+}
 
 /**
  * Convert Uint8Array to hex string
@@ -29,6 +48,7 @@ function toHexString(bytes: Uint8Array): string {
 export async function initializeFhevm(): Promise<void> {
   if (isInitialized) return;
   if (typeof window === 'undefined') return; // Skip on SSR
+  if (FHEVM_CONFIG === 'mock') return; // The mock needs no WASM
 
   try {
     await initFhevm();
@@ -49,11 +69,14 @@ export async function getFhevmInstance(provider: BrowserProvider): Promise<Fhevm
   }
 
   if (!fhevmInstance) {
+    const { kmsContractAddress, aclContractAddress, gatewayUrl } = getFhevmConfig();
     const network = await provider.getNetwork();
     fhevmInstance = await createInstance({
       chainId: Number(network.chainId),
-      networkUrl: (provider as any).connection?.url || 'https://rpc.sepolia.org',
-      ...FHEVM_CONFIG,
+      networkUrl: READ_RPC_URL,
+      kmsContractAddress,
+      aclContractAddress,
+      gatewayUrl,
     });
     console.log('FHEVM instance created');
   }
@@ -77,17 +100,22 @@ export async function encryptPrediction(
   guess: number,
   confidence: number
 ): Promise<EncryptedPrediction> {
-  const instance = await getFhevmInstance(provider);
+  let encrypted: { handles: Uint8Array[]; inputProof: Uint8Array };
+  if (FHEVM_CONFIG === 'mock') {
+    encrypted = await (await loadMock()).mockEncrypt(contractAddress, userAddress, [guess, confidence]);
+  } else {
+    const instance = await getFhevmInstance(provider);
+
+    // Create encrypted input bound to contract and user
+    const input = instance.createEncryptedInput(contractAddress, userAddress);
+
+    // Add both values to the encrypted input
+    input.add32(guess);
+    input.add32(confidence);
 
-  // Create encrypted input bound to contract and user
-  const input = instance.createEncryptedInput(contractAddress, userAddress);
-  
-  // Add both values to the encrypted input
-  input.add32(guess);
-  input.add32(confidence);
-  
-  // Encrypt and get handles + proof
-  const encrypted = await input.encrypt();
+    // Encrypt and get handles + proof
+    encrypted = await input.encrypt();
+  }
 
   // Convert to hex strings for contract calls
   return {
@@ -97,11 +125,137 @@ export async function encryptPrediction(
   };
 }
 
+/**
+ * Get a reencryption session for the user, asking for an EIP-712 signature if needed
+ */
+async function getReencryptSession(
+  instance: FhevmInstance,
+  signer: Signer,
+  contractAddress: string,
+  userAddress: string
+): Promise<ReencryptSession> {
+  if (
+    reencryptSession &&
+    reencryptSession.contractAddress === contractAddress &&
+    reencryptSession.userAddress === userAddress
+  ) {
+    return reencryptSession;
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const eip712 = instance.createEIP712(publicKey, contractAddress);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { [eip712.primaryType]: eip712.types[eip712.primaryType] },
+    eip712.message
+  );
+
+  reencryptSession = { contractAddress, userAddress, publicKey, privateKey, signature };
+  return reencryptSession;
+}
+
+/**
+ * Decrypt handles the user has been granted access to (FHE.allow)
+ * Values are reencrypted for a local keypair, so cleartexts never leave the browser
+ */
+export async function userDecrypt(
+  provider: BrowserProvider,
+  signer: Signer,
+  contractAddress: string,
+  userAddress: string,
+  handles: string[]
+): Promise<bigint[]> {
+  if (FHEVM_CONFIG === 'mock') {
+    return (await loadMock()).mockUserDecrypt(signer, contractAddress, userAddress, handles);
+  }
+
+  const instance = await getFhevmInstance(provider);
+  const session = await getReencryptSession(instance, signer, contractAddress, userAddress);
+
+  return Promise.all(
+    handles.map((handle) =>
+      instance.reencrypt(
+        BigInt(handle),
+        session.privateKey,
+        session.publicKey,
+        session.signature,
+        contractAddress,
+        userAddress
+      )
+    )
+  );
+}
+
+interface PublicDecryptionResult {
+  clearValues: bigint[];
+  decryptionProof: string;
+}
+
+/**
+ * Map a handle's type byte to the ABI type the KMS encodes its cleartext as
+ */
+function cleartextAbiType(handle: string): string {
+  const typeDiscriminant = parseInt(handle.slice(-4, -2), 16);
+  if (typeDiscriminant === 0) return 'bool';
+  if (typeDiscriminant === 7) return 'address';
+  return 'uint256';
+}
+
+/**
+ * Publicly decrypt handles through the relayer
+ * Returns cleartexts in the same order as the handles, plus the KMS proof for FHE.checkSignatures
+ */
+export async function publicDecrypt(handles: string[]): Promise<PublicDecryptionResult> {
+  if (FHEVM_CONFIG === 'mock') {
+    return (await loadMock()).mockPublicDecrypt(handles);
+  }
+
+  const response = await fetch(`${getFhevmConfig().relayerUrl}/v1/public-decrypt`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ciphertextHandles: handles, extraData: '0x00' }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Public decryption failed (${response.status})`);
+  }
+
+  const json = await response.json();
+  const result = json.response[0];
+  const decryptedValue = result.decrypted_value.startsWith('0x')
+    ? result.decrypted_value
+    : `0x${result.decrypted_value}`;
+  const signatures: string[] = result.signatures.map((sig: string) =>
+    sig.startsWith('0x') ? sig : `0x${sig}`
+  );
+
+  // The KMS encodes cleartexts as (requestId, ...values, bytes[]); pad the dummy fields back in
+  const restoredEncoded = '0x' + '00'.repeat(32) + decryptedValue.slice(2) + '00'.repeat(32);
+  const decoded = AbiCoder.defaultAbiCoder().decode(
+    ['uint256', ...handles.map(cleartextAbiType), 'bytes[]'],
+    restoredEncoded
+  );
+  const clearValues = handles.map((_, i) => BigInt(decoded[i + 1]));
+
+  // Proof layout expected by FHE.checkSignatures: numSigners + signatures + extraData
+  const decryptionProof = concat([
+    solidityPacked(['uint8'], [signatures.length]),
+    solidityPacked(signatures.map(() => 'bytes'), signatures),
+    '0x',
+  ]);
+
+  return { clearValues, decryptionProof };
+}
+
 /**
  * Reset the FHEVM instance (useful on wallet/network change)
  */
 export function resetFhevmInstance(): void {
   fhevmInstance = null;
+  reencryptSession = null;
+  if (FHEVM_CONFIG === 'mock') {
+    loadMock().then((mock) => mock.resetMockFhevm());
+  }
 }
 
 export { type FhevmInstance };
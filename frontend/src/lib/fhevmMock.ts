@@ -0,0 +1,145 @@
+'use client';
+
+import { ethers, type Signer } from 'ethers';
+import { MockFhevmInstance, relayer } from '@fhevm/mock-utils';
+import { getReadProvider } from '@/lib/provider';
+
+// Encryption and decryption against `npx hardhat node`, whose fhevm mock stands in for the
+// coprocessor, KMS and relayer. Loaded by fhevm.ts only on networks marked "mock" in the registry.
+
+type Hex = `0x${string}`;
+
+let mockInstance: Promise<MockFhevmInstance> | null = null;
+
+// User decryption keypair and EIP-712 signature, reused so the user only signs once per contract
+interface DecryptSession {
+  contractAddress: string;
+  userAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+}
+let decryptSession: DecryptSession | null = null;
+
+const SESSION_DURATION_DAYS = 1;
+
+const EIP712_DOMAIN_ABI = [
+  'function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)',
+];
+
+async function createMockInstance(): Promise<MockFhevmInstance> {
+  const provider = getReadProvider();
+  if (!provider) throw new Error('The fhevm mock is only available in the browser');
+
+  // The node reports its mock contract addresses; the gateway-side verifying contracts are
+  // the EIP-712 domains of the KMS and input verifiers
+  const metadata = await relayer.requestRelayerMetadata(provider);
+  const kmsVerifier = new ethers.Contract(metadata.KMSVerifierAddress, EIP712_DOMAIN_ABI, provider);
+  const inputVerifier = new ethers.Contract(metadata.InputVerifierAddress, EIP712_DOMAIN_ABI, provider);
+  const [decryptionDomain, inputDomain] = await Promise.all([kmsVerifier.eip712Domain(), inputVerifier.eip712Domain()]);
+
+  const instance = await MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress as Hex,
+      kmsContractAddress: metadata.KMSVerifierAddress as Hex,
+      inputVerifierContractAddress: metadata.InputVerifierAddress as Hex,
+      verifyingContractAddressDecryption: decryptionDomain.verifyingContract,
+      verifyingContractAddressInputVerification: inputDomain.verifyingContract,
+      chainId: metadata.chainId,
+      gatewayChainId: metadata.gatewayChainId,
+    },
+    { inputVerifierProperties: {}, kmsVerifierProperties: {} }
+  );
+  console.log('FHEVM mock instance created');
+  return instance;
+}
+
+function getMockInstance(): Promise<MockFhevmInstance> {
+  if (!mockInstance) {
+    mockInstance = createMockInstance();
+    // Let the next call retry, e.g. once the node is started
+    mockInstance.catch(() => {
+      mockInstance = null;
+    });
+  }
+  return mockInstance;
+}
+
+export async function mockEncrypt(
+  contractAddress: string,
+  userAddress: string,
+  values: number[]
+): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+  const instance = await getMockInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  values.forEach((value) => input.add32(value));
+  return input.encrypt();
+}
+
+async function getDecryptSession(
+  instance: MockFhevmInstance,
+  signer: Signer,
+  contractAddress: string,
+  userAddress: string
+): Promise<DecryptSession> {
+  if (
+    decryptSession &&
+    decryptSession.contractAddress === contractAddress &&
+    decryptSession.userAddress === userAddress
+  ) {
+    return decryptSession;
+  }
+
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const eip712 = instance.createEIP712(publicKey, [contractAddress], startTimestamp, SESSION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { [eip712.primaryType]: eip712.types[eip712.primaryType] },
+    eip712.message
+  );
+
+  decryptSession = { contractAddress, userAddress, publicKey, privateKey, signature, startTimestamp };
+  return decryptSession;
+}
+
+export async function mockUserDecrypt(
+  signer: Signer,
+  contractAddress: string,
+  userAddress: string,
+  handles: string[]
+): Promise<bigint[]> {
+  const instance = await getMockInstance();
+  const session = await getDecryptSession(instance, signer, contractAddress, userAddress);
+
+  const results = await instance.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    session.privateKey,
+    session.publicKey,
+    session.signature,
+    [contractAddress],
+    userAddress,
+    session.startTimestamp,
+    SESSION_DURATION_DAYS
+  );
+  return handles.map((handle) => BigInt(results[ethers.hexlify(handle) as Hex]));
+}
+
+export async function mockPublicDecrypt(
+  handles: string[]
+): Promise<{ clearValues: bigint[]; decryptionProof: string }> {
+  const instance = await getMockInstance();
+  const { clearValues, decryptionProof } = await instance.publicDecrypt(handles);
+  return {
+    clearValues: handles.map((handle) => BigInt(clearValues[ethers.hexlify(handle) as Hex])),
+    decryptionProof,
+  };
+}
+
+export function resetMockFhevm(): void {
+  mockInstance = null;
+  decryptSession = null;
+}
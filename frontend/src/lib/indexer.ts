@@ -0,0 +1,67 @@
+import { INDEXER_URL } from '@/lib/constants';
+import { toRoundConfig, type PastRound } from '@/hooks/useLottery';
+
+// Round as served by the indexer API (`npm run indexer:local`); amounts are decimal strings
+interface IndexedRound {
+  roundId: number;
+  winningNumber: number;
+  participantCount: number;
+  prizePool: string;
+  carriedOver: string;
+  sponsored: string;
+  payoutToken: string;
+  config: Record<string, string>;
+  winners: {
+    address: string;
+    category: number;
+    prize: string;
+    coWinner: boolean;
+    guess: number;
+    confidence: number;
+    distance: number;
+    score: number;
+  }[];
+}
+
+async function getJson<T>(path: string): Promise<T> {
+  const response = await fetch(`${INDEXER_URL}${path}`);
+  if (!response.ok) throw new Error(`Indexer request ${path} failed with ${response.status}`);
+  return response.json();
+}
+
+/**
+ * Completed rounds of `contractAddress` from the indexer, newest first. Returns null when
+ * no indexer is configured or it indexes another lottery, so callers read the chain instead.
+ */
+export async function fetchIndexedPastRounds(contractAddress: string, count: number): Promise<PastRound[] | null> {
+  if (!INDEXER_URL) return null;
+
+  const status = await getJson<{ contract: string } | null>('/status');
+  if (status?.contract !== contractAddress.toLowerCase()) return null;
+
+  const rounds = await getJson<IndexedRound[]>(`/rounds?status=completed&limit=${count}`);
+  return rounds.map((round) => ({
+    roundId: BigInt(round.roundId),
+    winningNumber: round.winningNumber,
+    winners: round.winners
+      .filter((w) => !w.coWinner)
+      .map((w) => ({
+        addr: w.address,
+        category: w.category,
+        prize: BigInt(w.prize),
+        guess: w.guess,
+        confidence: w.confidence,
+        distance: w.distance,
+        score: w.score,
+      })),
+    coWinners: round.winners
+      .filter((w) => w.coWinner)
+      .map((w) => ({ addr: w.address, category: w.category, prize: BigInt(w.prize) })),
+    prizePool: BigInt(round.prizePool),
+    carriedOver: BigInt(round.carriedOver),
+    sponsored: BigInt(round.sponsored),
+    participantCount: BigInt(round.participantCount),
+    config: toRoundConfig(Object.fromEntries(Object.entries(round.config).map(([key, value]) => [key, BigInt(value)]))),
+    payoutToken: round.payoutToken,
+  }));
+}
@@ -0,0 +1,55 @@
+import { ethers } from 'ethers';
+
+export interface PermitSignature {
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+// Permit validity window; the entry is submitted right after signing
+const PERMIT_TTL_SECONDS = 60 * 60;
+
+/**
+ * Sign an EIP-2612 permit letting `spender` pull `value` tokens.
+ * Throws if the token does not implement permit.
+ */
+export async function signPermit(
+  token: ethers.Contract,
+  signer: ethers.Signer,
+  spender: string,
+  value: bigint
+): Promise<PermitSignature> {
+  const owner = await signer.getAddress();
+  const [domain, nonce, network] = await Promise.all([
+    // Prefer the token's EIP-5267 domain; older permit tokens mostly use version '1'
+    token
+      .eip712Domain()
+      .then((d: any) => ({ name: d.name as string, version: d.version as string }))
+      .catch(async () => ({ name: (await token.name()) as string, version: '1' })),
+    token.nonces(owner),
+    signer.provider!.getNetwork(),
+  ]);
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL_SECONDS);
+
+  const signature = await signer.signTypedData(
+    {
+      ...domain,
+      chainId: network.chainId,
+      verifyingContract: await token.getAddress(),
+    },
+    {
+      Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    },
+    { owner, spender, value, nonce, deadline }
+  );
+
+  const { v, r, s } = ethers.Signature.from(signature);
+  return { deadline, v, r, s };
+}
@@ -0,0 +1,26 @@
+import { ethers } from 'ethers';
+import { NETWORK, RPC_URL } from '@/lib/constants';
+
+// A configured RPC, else the network's public endpoint
+export const READ_RPC_URL = RPC_URL || NETWORK.rpcUrl;
+
+let readProvider: ethers.JsonRpcProvider | null = null;
+
+/**
+ * Shared provider for reads and event subscriptions that need no wallet. Null during SSR.
+ */
+export function getReadProvider(): ethers.JsonRpcProvider | null {
+  if (typeof window === 'undefined') return null;
+  // Pinned to the registry's chain id, so an RPC for another chain fails instead of misreading
+  if (!readProvider) readProvider = new ethers.JsonRpcProvider(READ_RPC_URL, NETWORK.chainId);
+  return readProvider;
+}
+
+/**
+ * Runner for contract reads. A configured RPC is always preferred over the wallet; the
+ * network's public endpoint only serves visitors without one, since it may be rate limited.
+ */
+export function getReadRunner(signer: ethers.Signer | null): ethers.ContractRunner | null {
+  if (RPC_URL) return getReadProvider();
+  return signer ?? getReadProvider();
+}
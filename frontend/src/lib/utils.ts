@@ -1,5 +1,7 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { ethers } from 'ethers';
+import type { PaymentAsset } from './constants';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -10,9 +12,13 @@ export function formatAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
 }
 
-export function formatEth(wei: bigint): string {
-  const eth = Number(wei) / 1e18;
-  return eth.toFixed(4);
+export function formatAmount(amount: bigint, asset: PaymentAsset): string {
+  const value = Number(ethers.formatUnits(amount, asset.decimals));
+  return `${value.toFixed(4)} ${asset.symbol}`;
+}
+
+export function formatBps(bps: number): string {
+  return `${bps / 100}%`;
 }
 
 export function formatTimeRemaining(seconds: number): string {
@@ -39,16 +45,3 @@ export function generateEncryptedPlaceholder(): string {
   }
   return result + '...';
 }
-
-export function calculateConvictionScore(guess: number, winningNumber: number, confidence: number): number {
-  const distance = Math.abs(guess - winningNumber);
-  const rawScore = 1000 - distance;
-  return rawScore * confidence;
-}
-
-export function calculateCalibrationError(guess: number, winningNumber: number, confidence: number): number {
-  const distance = Math.abs(guess - winningNumber);
-  const rawScore = 1000 - distance;
-  const accuracyPct = (rawScore * 100) / 1000;
-  return Math.abs(confidence - accuracyPct);
-}
@@ -0,0 +1,87 @@
+// EIP-1193 provider as injected by browser wallets
+export interface EIP1193Provider {
+  isMetaMask?: boolean;
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+  on: (event: string, callback: (...args: any[]) => void) => void;
+  removeListener: (event: string, callback: (...args: any[]) => void) => void;
+}
+
+// EIP-6963 provider info; `rdns` identifies the wallet across sessions
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string; // Data URI, empty for the legacy injected provider
+  rdns: string;
+}
+
+export interface WalletOption {
+  info: WalletInfo;
+  provider: EIP1193Provider;
+}
+
+interface AnnounceProviderEvent extends Event {
+  detail: WalletOption;
+}
+
+declare const window: Window & { ethereum?: EIP1193Provider };
+
+// Stands in for wallets that only set window.ethereum, e.g. injected test providers
+export const LEGACY_INJECTED_RDNS = 'injected';
+
+const LAST_WALLET_KEY = 'privLottery.lastWallet';
+
+/**
+ * Discover wallets through EIP-6963 announcements. `onChange` receives the full list after
+ * every announcement. Returns a cleanup function.
+ */
+export function discoverWallets(onChange: (wallets: WalletOption[]) => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const wallets = new Map<string, WalletOption>();
+  const publish = () => {
+    const announced = [...wallets.values()];
+    // Fall back to window.ethereum only if it was not announced under its own name
+    const legacy = window.ethereum;
+    if (legacy && !announced.some((w) => w.provider === legacy)) {
+      announced.push({
+        info: {
+          uuid: LEGACY_INJECTED_RDNS,
+          name: legacy.isMetaMask ? 'MetaMask' : 'Browser Wallet',
+          icon: '',
+          rdns: LEGACY_INJECTED_RDNS,
+        },
+        provider: legacy,
+      });
+    }
+    onChange(announced);
+  };
+
+  const onAnnounce = (event: Event) => {
+    const { info, provider } = (event as AnnounceProviderEvent).detail;
+    wallets.set(info.rdns || info.uuid, { info, provider });
+    publish();
+  };
+
+  window.addEventListener('eip6963:announceProvider', onAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  publish();
+
+  return () => window.removeEventListener('eip6963:announceProvider', onAnnounce);
+}
+
+export function getLastWallet(): string | null {
+  try {
+    return localStorage.getItem(LAST_WALLET_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setLastWallet(rdns: string | null): void {
+  try {
+    if (rdns) localStorage.setItem(LAST_WALLET_KEY, rdns);
+    else localStorage.removeItem(LAST_WALLET_KEY);
+  } catch {
+    // Storage can be unavailable in private windows; the wallet is just not remembered
+  }
+}
@@ -3,10 +3,11 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@fhevm/hardhat-plugin";
 import "hardhat-deploy";
 import * as dotenv from "dotenv";
+import { NETWORKS } from "./shared/networks";
 
 dotenv.config();
 
-const SEPOLIA_RPC_URL = process.env.SEPOLIA_RPC_URL || "https://sepolia.infura.io/v3/your-api-key";
+const SEPOLIA_RPC_URL = process.env.SEPOLIA_RPC_URL || NETWORKS.sepolia.rpcUrl;
 const PRIVATE_KEY = process.env.PRIVATE_KEY;
 
 // Only include networks if a valid private key is configured
@@ -15,7 +16,8 @@ const networks: HardhatUserConfig["networks"] = {
     allowUnlimitedContractSize: true,
   },
   localhost: {
-    url: "http://127.0.0.1:8545",
+    url: NETWORKS.localhost.rpcUrl,
+    chainId: NETWORKS.localhost.chainId,
   },
 };
 
@@ -24,7 +26,7 @@ if (PRIVATE_KEY && PRIVATE_KEY.length === 66) {
   networks.sepolia = {
     url: SEPOLIA_RPC_URL,
     accounts: [PRIVATE_KEY],
-    chainId: 11155111,
+    chainId: NETWORKS.sepolia.chainId,
     gas: 8000000,
     gasPrice: "auto",
   };
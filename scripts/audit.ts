@@ -0,0 +1,51 @@
+import { ethers, deployments, network } from "hardhat";
+import * as dotenv from "dotenv";
+import { PrivLottery__factory } from "../types";
+import { auditLottery } from "./lib/audit";
+
+dotenv.config();
+
+/**
+ * First block to search for sweeps: AUDIT_FROM_BLOCK, or the block of the hardhat-deploy
+ * deployment when it is the audited contract
+ */
+async function deploymentBlock(address: string): Promise<number> {
+  if (process.env.AUDIT_FROM_BLOCK) return Number(process.env.AUDIT_FROM_BLOCK);
+
+  const deployment = await deployments.getOrNull("PrivLottery");
+  const blockNumber =
+    deployment?.address.toLowerCase() === address.toLowerCase() ? deployment.receipt?.blockNumber : undefined;
+  if (blockNumber === undefined) {
+    throw new Error(`No deployment record for ${address}; set AUDIT_FROM_BLOCK to its deployment block`);
+  }
+  return blockNumber;
+}
+
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const address = process.env.LOTTERY_ADDRESS || (await deployments.getOrNull("PrivLottery"))?.address;
+  if (!address) {
+    throw new Error(`No PrivLottery deployment on ${network.name}; deploy one first or set LOTTERY_ADDRESS`);
+  }
+  const lottery = PrivLottery__factory.connect(address, signer);
+
+  console.log("Auditing PrivLottery at:", address);
+
+  const report = await auditLottery({ lottery, fromBlock: await deploymentBlock(address) });
+
+  if (process.env.AUDIT_SWEEP === "true") {
+    if (report.issues.length > 0) throw new Error("Refusing to sweep with open mismatches");
+    const tx = await lottery.sweepSurplus();
+    await tx.wait();
+    console.log("Swept surplus to the treasury:", tx.hash);
+  }
+
+  if (report.issues.length > 0) process.exitCode = 1;
+}
+
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,20 +1,31 @@
 import { ethers } from "hardhat";
 import * as dotenv from "dotenv";
+import { printFrontendEnv } from "../shared/networks";
 
 dotenv.config();
 
 async function main() {
   const [deployer] = await ethers.getSigners();
   const treasury = process.env.TREASURY_ADDRESS || deployer.address;
+  // Optional ERC-20 for entry fees; unset for native ETH
+  const entryToken = process.env.ENTRY_TOKEN_ADDRESS || ethers.ZeroAddress;
 
   console.log("Deploying PrivLottery with account:", deployer.address);
   console.log("Account balance:", (await ethers.provider.getBalance(deployer.address)).toString());
   console.log("Treasury address:", treasury);
+  console.log("Entry token:", entryToken === ethers.ZeroAddress ? "native ETH" : entryToken);
 
-  const PrivLottery = await ethers.getContractFactory("PrivLottery");
+  // The scoring engine is a linked library, deployed first
+  const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+  await scoring.waitForDeployment();
+  console.log("LotteryScoring deployed to:", await scoring.getAddress());
+
+  const PrivLottery = await ethers.getContractFactory("PrivLottery", {
+    libraries: { LotteryScoring: await scoring.getAddress() },
+  });
   
   console.log("Deploying contract...");
-  const lottery = await PrivLottery.deploy(treasury, {
+  const lottery = await PrivLottery.deploy(treasury, entryToken, {
     gasLimit: 8000000,
   });
 
@@ -22,8 +33,8 @@ async function main() {
   const address = await lottery.getAddress();
 
   console.log("PrivLottery deployed to:", address);
-  console.log("\nUpdate frontend/src/lib/constants.ts with:");
-  console.log(`export const CONTRACT_ADDRESS = "${address}";`);
+  const { chainId } = await ethers.provider.getNetwork();
+  printFrontendEnv(Number(chainId), { NEXT_PUBLIC_CONTRACT_ADDRESS: address });
 }
 
 main()
@@ -0,0 +1,54 @@
+import { ethers, deployments, network } from "hardhat";
+import * as dotenv from "dotenv";
+import { PrivLottery__factory } from "../types";
+import { createIndexerApi, openIndexDb, runIndexer } from "./lib/indexer";
+
+dotenv.config();
+
+async function main() {
+  const [signer] = await ethers.getSigners();
+  const address = process.env.LOTTERY_ADDRESS || (await deployments.getOrNull("PrivLottery"))?.address;
+  if (!address) {
+    throw new Error(`No PrivLottery deployment on ${network.name}; deploy one first or set LOTTERY_ADDRESS`);
+  }
+  const lottery = PrivLottery__factory.connect(address, signer);
+
+  const dbFile = process.env.INDEXER_DB || ".indexer.sqlite";
+  const port = Number(process.env.INDEXER_PORT || 4000);
+  const intervalMs = Number(process.env.INDEXER_INTERVAL_MS || 5000);
+  const startBlock = Number(process.env.INDEXER_START_BLOCK || 0);
+  const confirmations = Number(process.env.INDEXER_CONFIRMATIONS || 0);
+
+  const db = openIndexDb(dbFile);
+  const server = createIndexerApi(db);
+  server.listen(port);
+
+  console.log("Indexing PrivLottery at:", address);
+  console.log("Database:", dbFile);
+  console.log(`API listening on http://localhost:${port}`);
+
+  let stopping = false;
+  process.on("SIGINT", () => {
+    console.log("Stopping indexer...");
+    stopping = true;
+  });
+
+  await runIndexer({
+    lottery,
+    db,
+    startBlock,
+    confirmations,
+    intervalMs,
+    shouldStop: () => stopping,
+  });
+
+  server.close();
+  db.close();
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
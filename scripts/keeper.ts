@@ -0,0 +1,50 @@
+import { ethers, fhevm, deployments, network } from "hardhat";
+import * as dotenv from "dotenv";
+import { PrivLottery__factory } from "../types";
+import { runKeeper } from "./lib/keeper";
+
+dotenv.config();
+
+async function main() {
+  await fhevm.initializeCLIApi();
+
+  const [signer] = await ethers.getSigners();
+  const address = process.env.LOTTERY_ADDRESS || (await deployments.getOrNull("PrivLottery"))?.address;
+  if (!address) {
+    throw new Error(`No PrivLottery deployment on ${network.name}; deploy one first or set LOTTERY_ADDRESS`);
+  }
+  const lottery = PrivLottery__factory.connect(address, signer);
+
+  const intervalMs = Number(process.env.KEEPER_INTERVAL_MS || 15000);
+  // Unset, the keeper picks the largest batch that fits the round's tie policy
+  const batchSize = process.env.KEEPER_BATCH_SIZE ? Number(process.env.KEEPER_BATCH_SIZE) : undefined;
+  const stateFile = process.env.KEEPER_STATE_FILE || ".keeper-state.json";
+  const txTimeoutMs = Number(process.env.KEEPER_TX_TIMEOUT_MS || 5 * 60 * 1000);
+
+  console.log("Keeper running for PrivLottery at:", address);
+  console.log("Keeper account:", signer.address);
+  console.log("Poll interval (ms):", intervalMs);
+
+  let stopping = false;
+  process.on("SIGINT", () => {
+    console.log("Stopping keeper...");
+    stopping = true;
+  });
+
+  await runKeeper({
+    lottery,
+    decryptor: fhevm,
+    batchSize,
+    stateFile,
+    txTimeoutMs,
+    intervalMs,
+    shouldStop: () => stopping,
+  });
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,140 @@
+/**
+ * @title audit
+ * @description Reconciles a PrivLottery's balance against its pools and credits, round by round
+ * @chapter automation
+ */
+
+import { ethers } from "ethers";
+import { PrivLottery } from "../../types";
+import { RoundStatus } from "./keeper";
+
+const BPS_DENOMINATOR = 10000n;
+// Block span per SurplusSwept log query; public RPCs cap the range of eth_getLogs
+const DEFAULT_BLOCK_RANGE = 2000;
+
+export interface RoundAudit {
+  roundId: bigint;
+  status: RoundStatus;
+  prizePool: bigint;
+  // Part of the distributable pool no prize share received
+  dust: bigint;
+}
+
+export interface AuditReport {
+  rounds: RoundAudit[];
+  balance: bigint;
+  openPools: bigint;
+  owed: bigint;
+  totalDust: bigint;
+  swept: bigint;
+  // Balance above what is owed, not explained by dust that is still unswept
+  unexplainedSurplus: bigint;
+  issues: string[];
+}
+
+export interface AuditOptions {
+  lottery: PrivLottery;
+  // The lottery's deployment block; no sweep can precede it
+  fromBlock: number;
+  blockRange?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * Recompute each completed round's fee and prize shares the way _distributePrizes does
+ * and return the rounding dust left behind
+ */
+function roundDust(round: Awaited<ReturnType<PrivLottery["rounds"]>>): {
+  dust: bigint;
+  categoryPrizes: bigint[];
+} {
+  const config = round.config;
+  const entryFees = round.prizePool - round.carriedOver - round.sponsored;
+  const platformFee = (entryFees * config.platformFeeBps) / BPS_DENOMINATOR;
+  const distributable = round.prizePool - platformFee;
+  const categoryPrizes = [config.convictionShareBps, config.accuracyShareBps, config.calibrationShareBps].map(
+    (share) => (distributable * share) / BPS_DENOMINATOR
+  );
+  const dust = distributable - categoryPrizes.reduce((sum, prize) => sum + prize, 0n);
+  return { dust, categoryPrizes };
+}
+
+/**
+ * Walk every round and check the contract's books. Issues are returned, not thrown, so one
+ * run reports every mismatch.
+ */
+export async function auditLottery(options: AuditOptions): Promise<AuditReport> {
+  const { lottery, fromBlock } = options;
+  const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+  const log = options.log ?? console.log;
+  const issues: string[] = [];
+  const rounds: RoundAudit[] = [];
+
+  const currentRoundId = await lottery.currentRoundId();
+  for (let roundId = 1n; roundId <= currentRoundId; roundId++) {
+    const round = await lottery.rounds(roundId);
+    const status = Number(round.status) as RoundStatus;
+    let dust = 0n;
+
+    if (status === RoundStatus.Active || status === RoundStatus.Settling) {
+      if (roundId !== currentRoundId) issues.push(`Round ${roundId} is still open but is not the current round`);
+    }
+
+    if (status === RoundStatus.Completed) {
+      const expected = roundDust(round);
+      dust = expected.dust;
+
+      const winners = await lottery.getRoundWinners(roundId);
+      const paid = [0n, 0n, 0n];
+      for (const winner of winners) {
+        paid[Number(winner.category)] += winner.prize;
+      }
+      for (const coWinner of await lottery.getCoWinners(roundId)) {
+        paid[Number(coWinner.category)] += coWinner.prize;
+      }
+      paid.forEach((amount, category) => {
+        // A category without a valid winner rolled its prize over instead
+        const prize = winners[category].addr === ethers.ZeroAddress ? 0n : expected.categoryPrizes[category];
+        if (amount !== prize) {
+          issues.push(`Round ${roundId} category ${category} paid ${amount}, expected ${prize}`);
+        }
+      });
+    }
+
+    rounds.push({ roundId, status, prizePool: round.prizePool, dust });
+  }
+
+  const [balance, openPools, owed] = await lottery.reconcile();
+  const totalDust = rounds.reduce((sum, round) => sum + round.dust, 0n);
+
+  // Paged, since a long-lived lottery spans more blocks than one log query may cover
+  const head = await lottery.runner!.provider!.getBlockNumber();
+  let swept = 0n;
+  for (let start = fromBlock; start <= head; start += blockRange) {
+    const toBlock = Math.min(start + blockRange - 1, head);
+    const sweeps = await lottery.queryFilter(lottery.filters.SurplusSwept(), start, toBlock);
+    swept += sweeps.reduce((sum, event) => sum + event.args.amount, 0n);
+  }
+
+  const liabilities = openPools + owed;
+  let unexplainedSurplus = 0n;
+  if (balance < liabilities) {
+    issues.push(`Balance ${balance} is short of open pools ${openPools} plus credits ${owed}`);
+  } else {
+    // Sweeps may also have taken stray funds, so swept can exceed the dust
+    const unsweptDust = totalDust > swept ? totalDust - swept : 0n;
+    const surplus = balance - liabilities;
+    if (surplus < unsweptDust) {
+      issues.push(`Surplus ${surplus} is below the ${unsweptDust} of unswept rounding dust`);
+    } else {
+      unexplainedSurplus = surplus - unsweptDust;
+    }
+  }
+
+  log(`Audited ${rounds.length} rounds`);
+  log(`Balance: ${balance}, open pools: ${openPools}, credits: ${owed}`);
+  log(`Rounding dust: ${totalDust}, swept: ${swept}, unexplained surplus: ${unexplainedSurplus}`);
+  for (const issue of issues) log(`MISMATCH: ${issue}`);
+
+  return { rounds, balance, openPools, owed, totalDust, swept, unexplainedSurplus, issues };
+}
@@ -0,0 +1,679 @@
+/**
+ * @title indexer
+ * @description Mirrors PrivLottery round history into SQLite and serves it as JSON
+ * @chapter automation
+ */
+
+import * as http from "http";
+import Database from "better-sqlite3";
+import { PrivLottery } from "../../types";
+import { RoundStatus } from "./keeper";
+
+export type IndexerDb = Database.Database;
+
+// Round lifecycle events the indexer mirrors
+export const INDEXED_EVENTS = [
+  "RoundStarted",
+  "RoundExtended",
+  "ParticipantJoined",
+  "RoundSettling",
+  "ScoresComputed",
+  "WinnerDeclared",
+  "RoundCompleted",
+  "RoundCancelled",
+] as const;
+
+export interface IndexerOptions {
+  lottery: PrivLottery;
+  db: IndexerDb;
+  startBlock?: number;
+  // Blocks to stay behind the head; reorgs within the tracked window are rolled back either way
+  confirmations?: number;
+  blockRange?: number;
+  log?: (message: string) => void;
+}
+
+export interface Checkpoint {
+  contract: string;
+  blockNumber: number;
+  blockHash: string;
+}
+
+interface StoredEvent {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  name: string;
+  roundId: number;
+  args: Record<string, string>;
+  // Finalized round data read from the contract, only for RoundCompleted
+  details: RoundDetails | null;
+}
+
+// Rows as stored in the index tables
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+  name: string;
+  round_id: number;
+  args: string;
+  details: string | null;
+}
+
+interface RoundRow {
+  round_id: number;
+  status: RoundStatus;
+  start_time: number | null;
+  end_time: number | null;
+  extension_count: number;
+  participant_count: number;
+  scores_computed: number;
+  winning_number: number | null;
+  prize_pool: string | null;
+  carried_over: string | null;
+  sponsored: string | null;
+  payout_token: string | null;
+  config: string | null;
+  started_block: number | null;
+  completed_block: number | null;
+}
+
+interface ParticipantRow {
+  round_id: number;
+  participant_index: number;
+  address: string;
+  block_number: number;
+  tx_hash: string;
+}
+
+interface WinnerRow {
+  round_id: number;
+  category: number;
+  address: string;
+  prize: string;
+  co_winner: number;
+  guess: number | null;
+  confidence: number | null;
+  distance: number | null;
+  score: number | null;
+  block_number: number;
+  log_index: number;
+}
+
+interface RoundDetails {
+  prizePool: string;
+  carriedOver: string;
+  sponsored: string;
+  payoutToken: string;
+  config: Record<string, string>;
+  winners: { guess: number; confidence: number; distance: number; score: number }[];
+}
+
+const CONFIG_FIELDS = [
+  "duration",
+  "entryPrice",
+  "maxParticipants",
+  "maxEntriesPerAddress",
+  "extensionDuration",
+  "maxExtensions",
+  "claimWindow",
+  "feeRolloverBps",
+  "platformFeeBps",
+  "convictionShareBps",
+  "accuracyShareBps",
+  "calibrationShareBps",
+] as const;
+
+const DEFAULT_BLOCK_RANGE = 2000;
+// Block hashes kept for reorg detection; deeper reorgs need a fresh index
+const REORG_DEPTH = 128;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    name TEXT NOT NULL,
+    round_id INTEGER NOT NULL,
+    args TEXT NOT NULL,
+    details TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_round ON events (round_id);
+  CREATE TABLE IF NOT EXISTS rounds (
+    round_id INTEGER PRIMARY KEY,
+    status INTEGER NOT NULL DEFAULT 0,
+    start_time INTEGER,
+    end_time INTEGER,
+    extension_count INTEGER NOT NULL DEFAULT 0,
+    participant_count INTEGER NOT NULL DEFAULT 0,
+    scores_computed INTEGER NOT NULL DEFAULT 0,
+    winning_number INTEGER,
+    prize_pool TEXT,
+    carried_over TEXT,
+    sponsored TEXT,
+    payout_token TEXT,
+    config TEXT,
+    started_block INTEGER,
+    completed_block INTEGER
+  );
+  CREATE TABLE IF NOT EXISTS participants (
+    round_id INTEGER NOT NULL,
+    participant_index INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (round_id, participant_index)
+  );
+  CREATE INDEX IF NOT EXISTS participants_address ON participants (address);
+  CREATE TABLE IF NOT EXISTS winners (
+    round_id INTEGER NOT NULL,
+    category INTEGER NOT NULL,
+    address TEXT NOT NULL,
+    prize TEXT NOT NULL,
+    co_winner INTEGER NOT NULL,
+    guess INTEGER,
+    confidence INTEGER,
+    distance INTEGER,
+    score INTEGER,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS winners_round ON winners (round_id);
+`;
+
+/**
+ * Open (or create) an index database. Pass ":memory:" for a throwaway index.
+ */
+export function openIndexDb(file: string): IndexerDb {
+  const db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+  return db;
+}
+
+export function getCheckpoint(db: IndexerDb): Checkpoint | null {
+  const row = db.prepare("SELECT contract, block_number, block_hash FROM checkpoint WHERE id = 1").get() as
+    | { contract: string; block_number: number; block_hash: string }
+    | undefined;
+  return row ? { contract: row.contract, blockNumber: row.block_number, blockHash: row.block_hash } : null;
+}
+
+function setCheckpoint(db: IndexerDb, checkpoint: Checkpoint): void {
+  db.prepare(
+    `INSERT INTO checkpoint (id, contract, block_number, block_hash) VALUES (1, ?, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET block_number = excluded.block_number, block_hash = excluded.block_hash`
+  ).run(checkpoint.contract, checkpoint.blockNumber, checkpoint.blockHash);
+}
+
+// ============ Event Projection ============
+
+/**
+ * Apply one event to the derived rounds, participants and winners tables. Runs for new
+ * events and again when a round is rebuilt after a reorg, so it only reads the database.
+ */
+function applyEvent(db: IndexerDb, event: StoredEvent): void {
+  const { roundId, args } = event;
+  db.prepare("INSERT OR IGNORE INTO rounds (round_id) VALUES (?)").run(roundId);
+
+  switch (event.name) {
+    case "RoundStarted":
+      db.prepare(
+        "UPDATE rounds SET status = ?, start_time = ?, end_time = ?, started_block = ? WHERE round_id = ?"
+      ).run(RoundStatus.Active, Number(args.startTime), Number(args.endTime), event.blockNumber, roundId);
+      break;
+    case "RoundExtended":
+      db.prepare("UPDATE rounds SET end_time = ?, extension_count = ? WHERE round_id = ?").run(
+        Number(args.newEndTime),
+        Number(args.extensionCount),
+        roundId
+      );
+      break;
+    case "ParticipantJoined":
+      db.prepare(
+        "INSERT INTO participants (round_id, participant_index, address, block_number, tx_hash) VALUES (?, ?, ?, ?, ?)"
+      ).run(roundId, Number(args.participantIndex), args.participant, event.blockNumber, event.txHash);
+      db.prepare("UPDATE rounds SET participant_count = participant_count + 1 WHERE round_id = ?").run(roundId);
+      break;
+    case "RoundSettling":
+      db.prepare("UPDATE rounds SET status = ? WHERE round_id = ?").run(RoundStatus.Settling, roundId);
+      break;
+    case "ScoresComputed":
+      // Batches may overlap, so progress is the furthest batch end
+      db.prepare("UPDATE rounds SET scores_computed = MAX(scores_computed, ?) WHERE round_id = ?").run(
+        Number(args.batchEnd),
+        roundId
+      );
+      break;
+    case "WinnerDeclared": {
+      // Category winners are declared first; later declarations in a category are co-winners
+      const declared = db
+        .prepare("SELECT 1 FROM winners WHERE round_id = ? AND category = ? AND co_winner = 0")
+        .get(roundId, Number(args.category));
+      db.prepare(
+        `INSERT INTO winners (round_id, category, address, prize, co_winner, block_number, log_index)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).run(roundId, Number(args.category), args.winner, args.prize, declared ? 1 : 0, event.blockNumber, event.logIndex);
+      break;
+    }
+    case "RoundCompleted": {
+      const details = event.details;
+      db.prepare(
+        `UPDATE rounds SET status = ?, winning_number = ?, completed_block = ?, prize_pool = ?, carried_over = ?,
+         sponsored = ?, payout_token = ?, config = ? WHERE round_id = ?`
+      ).run(
+        RoundStatus.Completed,
+        Number(args.winningNumber),
+        event.blockNumber,
+        details?.prizePool ?? null,
+        details?.carriedOver ?? null,
+        details?.sponsored ?? null,
+        details?.payoutToken ?? null,
+        details ? JSON.stringify(details.config) : null,
+        roundId
+      );
+      details?.winners.forEach((winner, category) => {
+        db.prepare(
+          `UPDATE winners SET guess = ?, confidence = ?, distance = ?, score = ?
+           WHERE round_id = ? AND category = ? AND co_winner = 0`
+        ).run(winner.guess, winner.confidence, winner.distance, winner.score, roundId, category);
+      });
+      break;
+    }
+    case "RoundCancelled":
+      db.prepare("UPDATE rounds SET status = ?, participant_count = ? WHERE round_id = ?").run(
+        RoundStatus.Cancelled,
+        Number(args.participantCount),
+        roundId
+      );
+      break;
+  }
+}
+
+function storeEvent(db: IndexerDb, event: StoredEvent): void {
+  db.prepare(
+    `INSERT INTO events (block_number, log_index, tx_hash, name, round_id, args, details)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    event.blockNumber,
+    event.logIndex,
+    event.txHash,
+    event.name,
+    event.roundId,
+    JSON.stringify(event.args),
+    event.details ? JSON.stringify(event.details) : null
+  );
+  applyEvent(db, event);
+}
+
+/**
+ * Drop everything indexed after `blockNumber` and rebuild the rounds those events touched
+ * from their remaining events
+ */
+function rollbackTo(db: IndexerDb, blockNumber: number, blockHash: string, contract: string): number[] {
+  const rollback = db.transaction(() => {
+    const affected = (
+      db.prepare("SELECT DISTINCT round_id FROM events WHERE block_number > ?").all(blockNumber) as {
+        round_id: number;
+      }[]
+    ).map((row) => row.round_id);
+
+    db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+
+    for (const roundId of affected) {
+      db.prepare("DELETE FROM rounds WHERE round_id = ?").run(roundId);
+      db.prepare("DELETE FROM participants WHERE round_id = ?").run(roundId);
+      db.prepare("DELETE FROM winners WHERE round_id = ?").run(roundId);
+
+      const rows = db
+        .prepare("SELECT * FROM events WHERE round_id = ? ORDER BY block_number, log_index")
+        .all(roundId) as EventRow[];
+      for (const row of rows) {
+        applyEvent(db, {
+          blockNumber: row.block_number,
+          logIndex: row.log_index,
+          txHash: row.tx_hash,
+          name: row.name,
+          roundId: row.round_id,
+          args: JSON.parse(row.args),
+          details: row.details ? JSON.parse(row.details) : null,
+        });
+      }
+    }
+
+    setCheckpoint(db, { contract, blockNumber, blockHash });
+    return affected;
+  });
+  return rollback();
+}
+
+// ============ Sync ============
+
+/**
+ * Walk back through the tracked block hashes to the newest block still on the chain
+ */
+async function findForkPoint(lottery: PrivLottery, db: IndexerDb): Promise<{ number: number; hash: string }> {
+  const provider = lottery.runner!.provider!;
+  const tracked = db.prepare("SELECT number, hash FROM blocks ORDER BY number DESC").all() as {
+    number: number;
+    hash: string;
+  }[];
+  for (const block of tracked) {
+    const current = await provider.getBlock(block.number);
+    if (current?.hash === block.hash) return block;
+  }
+  throw new Error(`Reorg deeper than the ${REORG_DEPTH} tracked blocks; delete the index and resync`);
+}
+
+/**
+ * Read the finalized round data that events do not carry
+ */
+async function fetchRoundDetails(lottery: PrivLottery, roundId: number): Promise<RoundDetails> {
+  const round = await lottery.rounds(roundId);
+  const config = await lottery.getRoundConfig(roundId);
+  const winners = await lottery.getRoundWinners(roundId);
+  return {
+    prizePool: round.prizePool.toString(),
+    carriedOver: round.carriedOver.toString(),
+    sponsored: round.sponsored.toString(),
+    payoutToken: await lottery.getRoundPayoutToken(roundId),
+    config: Object.fromEntries(CONFIG_FIELDS.map((field) => [field, config[field].toString()])),
+    winners: winners.map((winner) => ({
+      guess: Number(winner.guess),
+      confidence: Number(winner.confidence),
+      distance: Number(winner.distance),
+      score: Number(winner.score),
+    })),
+  };
+}
+
+/**
+ * Index every lottery event up to the confirmed head, rolling back first if the chain
+ * reorganized under the checkpoint. Returns the number of events ingested.
+ */
+export async function syncIndexer(options: IndexerOptions): Promise<number> {
+  const { lottery, db } = options;
+  const log = options.log ?? console.log;
+  const provider = lottery.runner!.provider!;
+  const contract = (await lottery.getAddress()).toLowerCase();
+  const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+
+  let checkpoint = getCheckpoint(db);
+  if (checkpoint && checkpoint.contract !== contract) {
+    throw new Error(`Index belongs to ${checkpoint.contract}, not ${contract}`);
+  }
+
+  if (checkpoint) {
+    const block = await provider.getBlock(checkpoint.blockNumber);
+    if (block?.hash !== checkpoint.blockHash) {
+      const fork = await findForkPoint(lottery, db);
+      const rebuilt = rollbackTo(db, fork.number, fork.hash, contract);
+      log(`Reorg detected: rolled back to block ${fork.number}, rebuilt rounds [${rebuilt.join(", ")}]`);
+      checkpoint = getCheckpoint(db);
+    }
+  }
+
+  const head = (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+  let fromBlock = checkpoint ? checkpoint.blockNumber + 1 : options.startBlock ?? 0;
+  const topics = INDEXED_EVENTS.map((name) => lottery.interface.getEvent(name).topicHash);
+  let ingested = 0;
+
+  while (fromBlock <= head) {
+    const toBlock = Math.min(fromBlock + blockRange - 1, head);
+    const logs = await provider.getLogs({ address: contract, topics: [topics], fromBlock, toBlock });
+
+    const events: StoredEvent[] = [];
+    const blockHashes = new Map<number, string>();
+    for (const entry of logs) {
+      const parsed = lottery.interface.parseLog(entry);
+      if (!parsed) continue;
+      const args = Object.fromEntries(
+        parsed.fragment.inputs.map((input, i) => [input.name, parsed.args[i].toString()])
+      );
+      const roundId = Number(args.roundId);
+      events.push({
+        blockNumber: entry.blockNumber,
+        logIndex: entry.index,
+        txHash: entry.transactionHash,
+        name: parsed.name,
+        roundId,
+        args,
+        details: parsed.name === "RoundCompleted" ? await fetchRoundDetails(lottery, roundId) : null,
+      });
+      blockHashes.set(entry.blockNumber, entry.blockHash);
+    }
+
+    const tip = await provider.getBlock(toBlock);
+    if (!tip?.hash) throw new Error(`Block ${toBlock} is not available`);
+    blockHashes.set(toBlock, tip.hash);
+
+    db.transaction(() => {
+      for (const event of events) storeEvent(db, event);
+      const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)");
+      for (const [number, hash] of blockHashes) insertBlock.run(number, hash);
+      db.prepare(
+        "DELETE FROM blocks WHERE number NOT IN (SELECT number FROM blocks ORDER BY number DESC LIMIT ?)"
+      ).run(REORG_DEPTH);
+      setCheckpoint(db, { contract, blockNumber: toBlock, blockHash: tip.hash! });
+    })();
+
+    if (events.length > 0) log(`Indexed ${events.length} events in blocks ${fromBlock}-${toBlock}`);
+    ingested += events.length;
+    fromBlock = toBlock + 1;
+  }
+
+  return ingested;
+}
+
+export async function runIndexer(
+  options: IndexerOptions & { intervalMs: number; shouldStop?: () => boolean }
+): Promise<void> {
+  const log = options.log ?? console.log;
+
+  while (!options.shouldStop?.()) {
+    try {
+      await syncIndexer(options);
+    } catch (error: any) {
+      // The checkpoint only moves with a committed batch, so the next poll retries
+      log(`Indexer sync failed: ${error.shortMessage || error.message}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, options.intervalMs));
+  }
+}
+
+// ============ Queries ============
+
+const STATUS_NAMES: Record<string, RoundStatus> = {
+  active: RoundStatus.Active,
+  settling: RoundStatus.Settling,
+  completed: RoundStatus.Completed,
+  cancelled: RoundStatus.Cancelled,
+};
+
+function toRound(row: RoundRow) {
+  return {
+    roundId: row.round_id,
+    status: row.status,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    extensionCount: row.extension_count,
+    participantCount: row.participant_count,
+    scoresComputed: row.scores_computed,
+    winningNumber: row.winning_number,
+    prizePool: row.prize_pool,
+    carriedOver: row.carried_over,
+    sponsored: row.sponsored,
+    payoutToken: row.payout_token,
+    config: row.config ? JSON.parse(row.config) : null,
+  };
+}
+
+function toWinner(row: WinnerRow) {
+  return {
+    address: row.address,
+    category: row.category,
+    prize: row.prize,
+    coWinner: row.co_winner === 1,
+    guess: row.guess,
+    confidence: row.confidence,
+    distance: row.distance,
+    score: row.score,
+  };
+}
+
+export function queryRounds(db: IndexerDb, options: { status?: RoundStatus; limit?: number; before?: number } = {}) {
+  const rows = db
+    .prepare(
+      `SELECT * FROM rounds WHERE (? IS NULL OR status = ?) AND (? IS NULL OR round_id < ?)
+       ORDER BY round_id DESC LIMIT ?`
+    )
+    .all(
+      options.status ?? null,
+      options.status ?? null,
+      options.before ?? null,
+      options.before ?? null,
+      options.limit ?? 20
+    ) as RoundRow[];
+  return rows.map((row) => ({ ...toRound(row), winners: queryWinners(db, row.round_id) }));
+}
+
+export function queryRound(db: IndexerDb, roundId: number) {
+  const row = db.prepare("SELECT * FROM rounds WHERE round_id = ?").get(roundId) as RoundRow | undefined;
+  if (!row) return null;
+  return { ...toRound(row), winners: queryWinners(db, roundId), participants: queryParticipants(db, roundId) };
+}
+
+export function queryWinners(db: IndexerDb, roundId: number) {
+  return (
+    db
+      .prepare("SELECT * FROM winners WHERE round_id = ? ORDER BY block_number, log_index")
+      .all(roundId) as WinnerRow[]
+  ).map(toWinner);
+}
+
+export function queryParticipants(db: IndexerDb, roundId: number) {
+  return (
+    db
+      .prepare("SELECT * FROM participants WHERE round_id = ? ORDER BY participant_index")
+      .all(roundId) as ParticipantRow[]
+  ).map((row) => ({ participantIndex: row.participant_index, address: row.address, txHash: row.tx_hash }));
+}
+
+/**
+ * Every round an address entered, newest first
+ */
+export function queryEntries(db: IndexerDb, address: string) {
+  return (
+    db
+      .prepare(
+        "SELECT * FROM participants WHERE lower(address) = lower(?) ORDER BY round_id DESC, participant_index"
+      )
+      .all(address) as ParticipantRow[]
+  ).map((row) => ({ roundId: row.round_id, participantIndex: row.participant_index, txHash: row.tx_hash }));
+}
+
+// ============ JSON API ============
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Integer query parameter within [min, max]; undefined when absent, NaN when malformed
+ */
+function parseIntegerParam(url: URL, name: string, min: number, max: number): number | undefined {
+  const raw = url.searchParams.get(name);
+  if (raw === null || raw === "") return undefined;
+  const value = /^-?\d+$/.test(raw) ? Number(raw) : NaN;
+  return Number.isSafeInteger(value) && value >= min && value <= max ? value : NaN;
+}
+
+/**
+ * Read-only JSON API over the index. Amounts are decimal strings.
+ *
+ *   GET /status                        checkpoint
+ *   GET /rounds?status=&limit=&before= rounds with their winners, newest first
+ *   GET /rounds/:id                    one round with winners and participants
+ *   GET /rounds/:id/participants
+ *   GET /rounds/:id/winners
+ *   GET /players/:address              rounds an address entered
+ */
+export function createIndexerApi(db: IndexerDb): http.Server {
+  return http.createServer((req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        // The frontend is served from another origin
+        "Access-Control-Allow-Origin": "*",
+      });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method !== "GET") return send(405, { error: "Method not allowed" });
+
+    try {
+      route(new URL(req.url ?? "/", "http://localhost"), send);
+    } catch (error: any) {
+      // A failed query answers this request only; the indexer keeps serving
+      console.error(`Indexer API error on ${req.url}:`, error.message);
+      send(500, { error: "Internal error" });
+    }
+  });
+
+  function route(url: URL, send: (status: number, body: unknown) => void) {
+    const parts = url.pathname.split("/").filter(Boolean);
+
+    if (parts.length === 1 && parts[0] === "status") {
+      return send(200, getCheckpoint(db));
+    }
+
+    if (parts[0] === "rounds" && parts.length === 1) {
+      const status = url.searchParams.get("status");
+      // Own keys only, so inherited names like "toString" are rejected
+      if (status && !Object.prototype.hasOwnProperty.call(STATUS_NAMES, status)) {
+        return send(400, { error: `Unknown status ${status}` });
+      }
+      const limit = parseIntegerParam(url, "limit", 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+      if (Number.isNaN(limit)) return send(400, { error: `limit must be an integer from 1 to ${MAX_PAGE_SIZE}` });
+      const before = parseIntegerParam(url, "before", 0, Number.MAX_SAFE_INTEGER);
+      if (Number.isNaN(before)) return send(400, { error: "before must be a round id" });
+      return send(
+        200,
+        queryRounds(db, {
+          status: status ? STATUS_NAMES[status] : undefined,
+          limit,
+          before,
+        })
+      );
+    }
+
+    if (parts[0] === "rounds" && parts.length <= 3) {
+      const roundId = Number(parts[1]);
+      if (!Number.isInteger(roundId)) return send(400, { error: "Invalid round id" });
+      const round = queryRound(db, roundId);
+      if (!round) return send(404, { error: `Round ${roundId} is not indexed` });
+
+      if (parts.length === 2) return send(200, round);
+      if (parts[2] === "participants") return send(200, round.participants);
+      if (parts[2] === "winners") return send(200, round.winners);
+    }
+
+    if (parts[0] === "players" && parts.length === 2) {
+      return send(200, queryEntries(db, parts[1]));
+    }
+
+    send(404, { error: "Not found" });
+  }
+}
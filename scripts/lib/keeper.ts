@@ -0,0 +1,324 @@
+/**
+ * @title keeper
+ * @description Drives PrivLottery rounds through settlement without a browser
+ * @chapter automation
+ */
+
+import * as fs from "fs";
+import { isError, Provider } from "ethers";
+import { PrivLottery } from "../../types";
+import { calculateDistance, categoryScore, MAX_GUESS, TiePolicy, WinnerCategory } from "../../shared/scoring";
+
+// RoundStatus enum matching contract
+export enum RoundStatus {
+  Active = 0,
+  Settling = 1,
+  Completed = 2,
+  Cancelled = 3,
+}
+
+export type KeeperAction =
+  | "idle"
+  | "extend"
+  | "cancel"
+  | "settle"
+  | "computeScores"
+  | "requestReveal"
+  | "revealIndices"
+  | "finalize";
+
+/**
+ * Minimal public decryption interface, satisfied by the hardhat `fhevm` runtime
+ * (mock on hardhat/localhost, relayer on Sepolia)
+ */
+export interface PublicDecryptor {
+  publicDecrypt(handles: string[]): Promise<{
+    clearValues: Record<string, bigint | boolean | string>;
+    decryptionProof: string;
+  }>;
+}
+
+export interface KeeperState {
+  roundId: string | null;
+  lastAction: KeeperAction | null;
+  pendingTx: string | null;
+}
+
+export interface KeeperOptions {
+  lottery: PrivLottery;
+  decryptor: PublicDecryptor;
+  batchSize?: number;
+  stateFile?: string;
+  txTimeoutMs?: number;
+  log?: (message: string) => void;
+}
+
+// Larger batches exceed the per-transaction HCU limit with three ranked categories and tiebreak keys
+const DEFAULT_BATCH_SIZE = 3;
+// SplitEvenly rounds also track tie masks while scoring, which leaves room for two entries
+const SPLIT_EVENLY_BATCH_SIZE = 2;
+const MIN_PARTICIPANTS = 3n;
+// A transaction not mined by then is taken as dropped or replaced, and its step is resubmitted
+const DEFAULT_TX_TIMEOUT_MS = 5 * 60 * 1000;
+const RECEIPT_POLL_MS = 2000;
+
+/**
+ * Load the persisted keeper state, or a fresh one if none exists
+ */
+export function loadKeeperState(stateFile?: string): KeeperState {
+  if (stateFile && fs.existsSync(stateFile)) {
+    return JSON.parse(fs.readFileSync(stateFile, "utf-8")) as KeeperState;
+  }
+  return { roundId: null, lastAction: null, pendingTx: null };
+}
+
+function saveKeeperState(stateFile: string | undefined, state: KeeperState): void {
+  if (!stateFile) return;
+  fs.writeFileSync(stateFile, JSON.stringify(state, null, 2));
+}
+
+/**
+ * Look up decrypted values in handle order
+ */
+function clearValuesInOrder(
+  handles: string[],
+  clearValues: Record<string, bigint | boolean | string>
+): bigint[] {
+  return handles.map((handle) => {
+    const value = clearValues[handle] ?? clearValues[handle.toLowerCase()];
+    if (value === undefined) {
+      throw new Error(`Missing decrypted value for handle ${handle}`);
+    }
+    return BigInt(value);
+  });
+}
+
+/**
+ * Wait for a transaction sent by this keeper, returning false if it was not mined in time
+ */
+async function minedWithin(wait: Promise<unknown>): Promise<boolean> {
+  try {
+    await wait;
+    return true;
+  } catch (error: unknown) {
+    if (isError(error, "TIMEOUT")) return false;
+    throw error;
+  }
+}
+
+/**
+ * Poll for the receipt of a transaction known only by its hash, e.g. from before a restart.
+ * Returns false if none appears in time.
+ */
+async function receiptWithin(provider: Provider, hash: string, timeoutMs: number): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    if (await provider.getTransactionReceipt(hash)) return true;
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) return false;
+    await new Promise((resolve) => setTimeout(resolve, Math.min(RECEIPT_POLL_MS, remaining)));
+  }
+}
+
+function errorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  // ethers errors carry a one-line summary without the request dump
+  return "shortMessage" in error && typeof error.shortMessage === "string" ? error.shortMessage : error.message;
+}
+
+/**
+ * Find the first participant index whose scores still need computing
+ */
+async function nextUncomputedIndex(
+  lottery: PrivLottery,
+  roundId: bigint,
+  participantCount: bigint
+): Promise<number | null> {
+  for (let i = 0n; i < participantCount; i++) {
+    const participant = await lottery.getParticipant(roundId, i);
+    if (!participant.scoresComputed) return Number(i);
+  }
+  return null;
+}
+
+/**
+ * Decide which step the current round needs next, based purely on chain state.
+ * Running it repeatedly never skips or repeats a step, which keeps the keeper idempotent.
+ */
+export async function nextKeeperAction(lottery: PrivLottery): Promise<KeeperAction> {
+  const round = await lottery.getCurrentRound();
+  const status = Number(round.status) as RoundStatus;
+
+  if (status === RoundStatus.Active) {
+    const block = await lottery.runner!.provider!.getBlock("latest");
+    if (BigInt(block!.timestamp) < round.endTime) return "idle";
+    if (round.participantCount >= MIN_PARTICIPANTS) return "settle";
+
+    // Short rounds with entries are reopened while the round config allows extensions
+    const config = await lottery.getRoundConfig(round.roundId);
+    const canExtend = round.participantCount > 0n && round.extensionCount < config.maxExtensions;
+    return canExtend ? "extend" : "cancel";
+  }
+
+  if (status !== RoundStatus.Settling) return "idle";
+
+  if (round.scoresComputedCount < round.participantCount) return "computeScores";
+
+  const reveal = await lottery.getRevealStatus(round.roundId);
+  if (!reveal.revealRequested) return "requestReveal";
+  if (!reveal.winnerIndicesRevealed) return "revealIndices";
+  return "finalize";
+}
+
+/**
+ * Execute a single settlement step for the current round, if one is due
+ */
+export async function keeperTick(options: KeeperOptions): Promise<KeeperAction> {
+  const { lottery, decryptor, stateFile } = options;
+  const txTimeoutMs = options.txTimeoutMs ?? DEFAULT_TX_TIMEOUT_MS;
+  const log = options.log ?? console.log;
+  const state = loadKeeperState(stateFile);
+
+  // A transaction sent before a restart may still be in flight
+  if (state.pendingTx) {
+    log(`Waiting for pending transaction ${state.pendingTx}`);
+    if (!(await receiptWithin(lottery.runner!.provider!, state.pendingTx, txTimeoutMs))) {
+      // The next step is read from chain state below, so a lost step is simply sent again
+      log(`Transaction ${state.pendingTx} was not mined in ${txTimeoutMs}ms, resubmitting`);
+    }
+    state.pendingTx = null;
+    saveKeeperState(stateFile, state);
+  }
+
+  const action = await nextKeeperAction(lottery);
+  if (action === "idle") return action;
+
+  const round = await lottery.getCurrentRound();
+  const roundId = round.roundId;
+  log(`Round #${roundId}: ${action}`);
+
+  let tx;
+  switch (action) {
+    case "extend":
+      tx = await lottery.extendRound();
+      break;
+
+    case "cancel":
+      tx = await lottery.cancelRound();
+      break;
+
+    case "settle":
+      tx = await lottery.settleRound();
+      break;
+
+    case "computeScores": {
+      const batchStart = await nextUncomputedIndex(lottery, roundId, round.participantCount);
+      if (batchStart === null) return "idle";
+      const splitEvenly = Number(await lottery.getRoundTiePolicy(roundId)) === TiePolicy.SplitEvenly;
+      const batchSize = options.batchSize ?? (splitEvenly ? SPLIT_EVENLY_BATCH_SIZE : DEFAULT_BATCH_SIZE);
+      tx = await lottery.computeScoresBatch(batchStart, batchSize);
+      break;
+    }
+
+    case "requestReveal":
+      tx = await lottery.requestWinnerReveal();
+      break;
+
+    case "revealIndices": {
+      // Order: convictionIdx, accuracyIdx, calibrationIdx, then one co-winner mask per category
+      const handles = [...(await lottery.getWinnerIndexHandles(roundId))];
+      const { clearValues, decryptionProof } = await decryptor.publicDecrypt(handles);
+      const values = clearValuesInOrder(handles, clearValues);
+      tx = await lottery.revealWinnerIndices(
+        values[0],
+        values[1],
+        values[2],
+        [values[3], values[4], values[5]],
+        decryptionProof
+      );
+      break;
+    }
+
+    case "finalize": {
+      // Order: winningNumber, convictionIdx, accuracyIdx, calibrationIdx,
+      //        then for each winner: guess, confidence, distance
+      const handles = [...(await lottery.getFinalizationHandles(roundId))];
+      const { clearValues, decryptionProof } = await decryptor.publicDecrypt(handles);
+      const values = clearValuesInOrder(handles, clearValues);
+      const winnerData = (offset: number): [bigint, bigint, bigint] => [
+        values[4 + offset],
+        values[7 + offset],
+        values[10 + offset],
+      ];
+      const winningNumber = Number(values[0]);
+      const [guesses, confidences, distances] = [winnerData(0), winnerData(1), winnerData(2)];
+      const categories = [WinnerCategory.Conviction, WinnerCategory.Accuracy, WinnerCategory.Calibration];
+      for (const category of categories) {
+        const distance = Number(distances[category]);
+        // Only invalid entries score past MAX_GUESS. Their guess is stored clamped, so it does not
+        // reproduce the distance; the contract leaves the category without a winner.
+        if (distance > MAX_GUESS) {
+          log(`${WinnerCategory[category]} has no valid entry left; its prize rolls over`);
+          continue;
+        }
+        // Cross-check the signed values against the shared scoring spec before paying out
+        if (distance !== calculateDistance(Number(guesses[category]), winningNumber)) {
+          throw new Error(`Decrypted distance for ${WinnerCategory[category]} winner does not match its guess`);
+        }
+        log(
+          `${WinnerCategory[category]} winner #${values[1 + category]} scores ` +
+            categoryScore(category, distance, Number(confidences[category]))
+        );
+      }
+      tx = await lottery.finalizeRound(
+        values[0],
+        values[1],
+        values[2],
+        values[3],
+        guesses,
+        confidences,
+        distances,
+        decryptionProof
+      );
+      break;
+    }
+  }
+
+  state.roundId = roundId.toString();
+  state.lastAction = action;
+  state.pendingTx = tx.hash;
+  saveKeeperState(stateFile, state);
+
+  if (!(await minedWithin(tx.wait(1, txTimeoutMs)))) {
+    log(`Transaction ${tx.hash} was not mined in ${txTimeoutMs}ms, the step will be resubmitted`);
+  }
+
+  state.pendingTx = null;
+  saveKeeperState(stateFile, state);
+
+  return action;
+}
+
+/**
+ * Poll the lottery and run settlement steps until stopped
+ */
+export async function runKeeper(
+  options: KeeperOptions & { intervalMs: number; shouldStop?: () => boolean }
+): Promise<void> {
+  const log = options.log ?? console.log;
+
+  while (!options.shouldStop?.()) {
+    let action: KeeperAction = "idle";
+    try {
+      action = await keeperTick(options);
+    } catch (error: unknown) {
+      // Another caller may have advanced the round first; state is re-read next tick
+      log(`Keeper step failed: ${errorMessage(error)}`);
+    }
+
+    // Keep going immediately while there is work, otherwise wait for the next poll
+    if (action === "idle") {
+      await new Promise((resolve) => setTimeout(resolve, options.intervalMs));
+    }
+  }
+}
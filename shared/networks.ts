@@ -0,0 +1,112 @@
+/**
+ * @title networks
+ * @description Chains PrivLottery runs on, shared by the hardhat config, deploy scripts and frontend
+ * @dev Keys match the hardhat network names, so `--network <name>` and the frontend's
+ *      NEXT_PUBLIC_NETWORK refer to the same entry. Add a chain here to support it everywhere.
+ */
+
+// Zama coprocessor contracts and services a chain's FHE operations go through
+export interface FhevmConfig {
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  gatewayUrl: string;
+  relayerUrl: string; // Public decryption of handles marked with FHE.makePubliclyDecryptable
+}
+
+export interface NetworkConfig {
+  name: string;
+  label: string; // Shown in the UI and when adding the chain to a wallet
+  chainId: number;
+  rpcUrl: string; // Public fallback; the frontend and hardhat config prefer their configured RPC
+  explorerUrl: string | null;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  // "mock" when the hardhat node's fhevm mock serves encryption and decryption itself
+  fhevm: FhevmConfig | "mock";
+  // Deployments the frontend uses unless overridden through its environment
+  lotteryAddress: string;
+  factoryAddress: string;
+}
+
+const ETH = { name: "ETH", symbol: "ETH", decimals: 18 };
+
+export const NETWORKS = {
+  localhost: {
+    name: "localhost",
+    label: "Localhost",
+    chainId: 31337,
+    rpcUrl: "http://127.0.0.1:8545",
+    explorerUrl: null,
+    nativeCurrency: ETH,
+    fhevm: "mock",
+    // Printed by `npm run deploy:local`, differs per node run
+    lotteryAddress: "",
+    factoryAddress: "",
+  },
+  sepolia: {
+    name: "sepolia",
+    label: "Sepolia",
+    chainId: 11155111,
+    rpcUrl: "https://rpc.sepolia.org",
+    explorerUrl: "https://sepolia.etherscan.io",
+    nativeCurrency: ETH,
+    fhevm: {
+      aclContractAddress: "0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D",
+      kmsContractAddress: "0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A",
+      gatewayUrl: "https://gateway.testnet.zama.org",
+      relayerUrl: "https://relayer.testnet.zama.org",
+    },
+    // No deployment of the current contracts yet; set them from `npm run deploy:sepolia`
+    lotteryAddress: "",
+    factoryAddress: "",
+  },
+} satisfies Record<string, NetworkConfig>;
+
+export type NetworkName = keyof typeof NETWORKS;
+
+export const DEFAULT_NETWORK: NetworkName = "sepolia";
+
+export function isNetworkName(name: string): name is NetworkName {
+  return Object.prototype.hasOwnProperty.call(NETWORKS, name);
+}
+
+/**
+ * Look up a network by name, throwing on unknown names so a typo in configuration fails loudly
+ */
+export function getNetwork(name: string): NetworkConfig {
+  if (!isNetworkName(name)) {
+    throw new Error(`Unknown network "${name}". Expected one of: ${Object.keys(NETWORKS).join(", ")}`);
+  }
+  return NETWORKS[name];
+}
+
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return Object.values(NETWORKS).find((network) => network.chainId === chainId);
+}
+
+export function chainIdHex(network: NetworkConfig): string {
+  return `0x${network.chainId.toString(16)}`;
+}
+
+/**
+ * Block explorer page for an address, or null on chains without an explorer
+ */
+export function explorerAddressUrl(network: NetworkConfig, address: string): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/address/${address}` : null;
+}
+
+/**
+ * Print the frontend/.env.local lines that point the dApp at a deployment on `chainId`.
+ * Matching by chain id also covers the in-process "hardhat" network behind `npx hardhat node`.
+ */
+export function printFrontendEnv(chainId: number, vars: Record<string, string>): void {
+  const network = getNetworkByChainId(chainId);
+  console.log("\nSet in frontend/.env.local:");
+  if (network) {
+    console.log(`NEXT_PUBLIC_NETWORK=${network.name}`);
+  } else {
+    console.log(`# Chain ${chainId} is not in shared/networks.ts; add it there before using this deployment`);
+  }
+  for (const [key, value] of Object.entries(vars)) {
+    console.log(`${key}=${value}`);
+  }
+}
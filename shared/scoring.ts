@@ -0,0 +1,160 @@
+/**
+ * @title scoring
+ * @description Reference implementation of the PrivLottery scoring rules
+ * @dev Mirrors the integer arithmetic in PrivLottery.computeScoresBatch exactly
+ *      (including truncating division), so cleartext results can be compared
+ *      one-to-one with decrypted on-chain scores.
+ */
+
+export const MIN_GUESS = 0;
+export const MAX_GUESS = 1023;
+export const MAX_CONFIDENCE = 100;
+
+// WinnerCategory enum matching contract
+export enum WinnerCategory {
+  Conviction = 0,
+  Accuracy = 1,
+  Calibration = 2,
+}
+
+// TiePolicy enum matching contract
+export enum TiePolicy {
+  EarliestSubmission = 0,
+  SplitEvenly = 1,
+  RandomTiebreak = 2,
+}
+
+export interface EntryScores {
+  distance: number;
+  rawScore: number;
+  convictionScore: number;
+  normalizedAccuracy: number;
+  calibrationError: number;
+}
+
+export interface ScoredEntry {
+  guess: number;
+  confidence: number;
+}
+
+/**
+ * Distance between a guess and the winning number: |guess - winningNumber|
+ */
+export function calculateDistance(guess: number, winningNumber: number): number {
+  return Math.abs(guess - winningNumber);
+}
+
+/**
+ * Raw score: MAX_GUESS - distance (higher is better)
+ */
+export function calculateRawScore(distance: number): number {
+  return MAX_GUESS - distance;
+}
+
+/**
+ * Conviction score: rawScore * confidence (higher is better)
+ */
+export function calculateConvictionScore(distance: number, confidence: number): number {
+  return calculateRawScore(distance) * confidence;
+}
+
+/**
+ * Accuracy as a whole percentage: rawScore * 100 / MAX_GUESS, truncated like FHE.div
+ */
+export function calculateNormalizedAccuracy(distance: number): number {
+  return Math.floor((calculateRawScore(distance) * 100) / MAX_GUESS);
+}
+
+/**
+ * Calibration error: |confidence - normalizedAccuracy| (lower is better)
+ */
+export function calculateCalibrationError(distance: number, confidence: number): number {
+  return Math.abs(confidence - calculateNormalizedAccuracy(distance));
+}
+
+/**
+ * Whether both inputs are in range. The contract clamps out-of-range inputs and flags the
+ * entry so it ranks below every valid entry.
+ */
+export function isInRange(guess: number, confidence: number): boolean {
+  return guess >= MIN_GUESS && guess <= MAX_GUESS && confidence >= 0 && confidence <= MAX_CONFIDENCE;
+}
+
+/**
+ * Compute every score the contract stores for an entry
+ * Out-of-range entries get scores no valid entry can reach: distance MAX_GUESS + 1,
+ * conviction 0 and calibration error MAX_CONFIDENCE + 1
+ */
+export function scoreEntry(guess: number, confidence: number, winningNumber: number): EntryScores {
+  if (!isInRange(guess, confidence)) {
+    return {
+      distance: MAX_GUESS + 1,
+      rawScore: 0,
+      convictionScore: 0,
+      normalizedAccuracy: 0,
+      calibrationError: MAX_CONFIDENCE + 1,
+    };
+  }
+
+  const distance = calculateDistance(guess, winningNumber);
+  return {
+    distance,
+    rawScore: calculateRawScore(distance),
+    convictionScore: calculateConvictionScore(distance, confidence),
+    normalizedAccuracy: calculateNormalizedAccuracy(distance),
+    calibrationError: calculateCalibrationError(distance, confidence),
+  };
+}
+
+/**
+ * The score recorded in Winner.score for a category
+ * Conviction and accuracy are higher-is-better, calibration records the error (lower is better)
+ */
+export function categoryScore(category: WinnerCategory, distance: number, confidence: number): number {
+  switch (category) {
+    case WinnerCategory.Conviction:
+      return calculateConvictionScore(distance, confidence);
+    case WinnerCategory.Accuracy:
+      return calculateRawScore(distance);
+    case WinnerCategory.Calibration:
+      return calculateCalibrationError(distance, confidence);
+  }
+}
+
+/**
+ * Rank entries in one category, best first. Ties go to the earlier entry, as under
+ * the contract's default EarliestSubmission tie policy.
+ */
+export function rankCategory(
+  entries: ScoredEntry[],
+  winningNumber: number,
+  category: WinnerCategory
+): number[] {
+  const scores = entries.map((entry) => scoreEntry(entry.guess, entry.confidence, winningNumber));
+  const key = (i: number) => {
+    switch (category) {
+      case WinnerCategory.Conviction:
+        // Valid entries rank one above their score, so a zero score still beats an out-of-range entry
+        return isInRange(entries[i].guess, entries[i].confidence) ? -(scores[i].convictionScore + 1) : 0;
+      case WinnerCategory.Accuracy:
+        return scores[i].distance;
+      case WinnerCategory.Calibration:
+        return scores[i].calibrationError;
+    }
+  };
+  return entries.map((_, i) => i).sort((a, b) => key(a) - key(b) || a - b);
+}
+
+/**
+ * Pick the three distinct winner indices in priority order Conviction > Accuracy > Calibration
+ */
+export function selectWinners(entries: ScoredEntry[], winningNumber: number): [number, number, number] {
+  const taken = new Set<number>();
+  const pick = (category: WinnerCategory) => {
+    const winner = rankCategory(entries, winningNumber, category).find((i) => !taken.has(i));
+    if (winner === undefined) throw new Error("At least 3 entries are required");
+    taken.add(winner);
+    return winner;
+  };
+  return [pick(WinnerCategory.Conviction), pick(WinnerCategory.Accuracy), pick(WinnerCategory.Calibration)];
+}
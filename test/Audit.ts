@@ -0,0 +1,104 @@
+import { PrivLottery, PrivLottery__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { auditLottery } from "../scripts/lib/audit";
+import { keeperTick } from "../scripts/lib/keeper";
+
+describe("Audit", function () {
+  let signers: HardhatEthersSigner[];
+  let lotteryContract: PrivLottery;
+  let lotteryContractAddress: string;
+  let deployBlock: number;
+
+  const silent = () => {};
+  // Makes the distributable pool odd so the 50/30/20 split leaves one wei behind
+  const SPONSORSHIP = 7n;
+
+  async function enter(signer: HardhatEthersSigner, guess: number, confidence: number) {
+    const encrypted = await fhevm
+      .createEncryptedInput(lotteryContractAddress, signer.address)
+      .add32(guess)
+      .add32(confidence)
+      .encrypt();
+
+    await lotteryContract
+      .connect(signer)
+      .submitPrediction(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+        value: ethers.parseEther("0.001"),
+      });
+  }
+
+  async function completeRound() {
+    await lotteryContract.sponsorRound(1, "", { value: SPONSORSHIP });
+    await enter(signers[2], 100, 50);
+    await enter(signers[3], 500, 50);
+    await enter(signers[4], 900, 50);
+
+    const round = await lotteryContract.getCurrentRound();
+    await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+    await ethers.provider.send("evm_mine", []);
+
+    for (let i = 0; i < 20; i++) {
+      const action = await keeperTick({ lottery: lotteryContract, decryptor: fhevm, log: silent });
+      if (action === "idle") break;
+    }
+    expect((await lotteryContract.rounds(1)).status).to.eq(2n); // Completed
+  }
+
+  before(async function () {
+    signers = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+    const factory = (await ethers.getContractFactory("PrivLottery", {
+      libraries: { LotteryScoring: await scoring.getAddress() },
+    })) as PrivLottery__factory;
+    lotteryContract = (await factory.deploy(signers[1].address, ethers.ZeroAddress)) as PrivLottery;
+    lotteryContractAddress = await lotteryContract.getAddress();
+    deployBlock = (await lotteryContract.deploymentTransaction()!.wait())!.blockNumber;
+  });
+
+  it("should balance the books, report the rounding dust and sweep it", async function () {
+    await completeRound();
+
+    const report = await auditLottery({ lottery: lotteryContract, fromBlock: deployBlock, log: silent });
+    expect(report.issues).to.deep.eq([]);
+    expect(report.rounds.map((round) => round.dust)).to.deep.eq([1n, 0n]);
+    expect(report.totalDust).to.eq(1n);
+    expect(report.unexplainedSurplus).to.eq(0n);
+    expect(report.balance).to.eq(report.openPools + report.owed + 1n);
+
+    const treasuryBefore = await lotteryContract.claimable(signers[1].address);
+    await expect(lotteryContract.connect(signers[2]).sweepSurplus()).to.be.revertedWithCustomError(
+      lotteryContract,
+      "NotOwner"
+    );
+    await expect(lotteryContract.sweepSurplus()).to.emit(lotteryContract, "SurplusSwept").withArgs(1n);
+    expect(await lotteryContract.claimable(signers[1].address)).to.eq(treasuryBefore + 1n);
+    await expect(lotteryContract.sweepSurplus()).to.be.revertedWithCustomError(lotteryContract, "NothingToSweep");
+
+    // One-block pages still find the sweep
+    const swept = await auditLottery({ lottery: lotteryContract, fromBlock: deployBlock, blockRange: 1, log: silent });
+    expect(swept.issues).to.deep.eq([]);
+    expect(swept.swept).to.eq(1n);
+    expect(swept.balance).to.eq(swept.openPools + swept.owed);
+  });
+
+  it("should flag a balance short of the books and report unexplained surplus", async function () {
+    await completeRound();
+    const balance = await ethers.provider.getBalance(lotteryContractAddress);
+
+    await ethers.provider.send("hardhat_setBalance", [lotteryContractAddress, ethers.toBeHex(balance - 2n)]);
+    const short = await auditLottery({ lottery: lotteryContract, fromBlock: deployBlock, log: silent });
+    expect(short.issues).to.have.length(1);
+    expect(short.issues[0]).to.contain("short of open pools");
+
+    // ETH forced in without a transfer, e.g. by selfdestruct
+    await ethers.provider.send("hardhat_setBalance", [lotteryContractAddress, ethers.toBeHex(balance + 5n)]);
+    const surplus = await auditLottery({ lottery: lotteryContract, fromBlock: deployBlock, log: silent });
+    expect(surplus.issues).to.deep.eq([]);
+    expect(surplus.unexplainedSurplus).to.eq(5n);
+  });
+});
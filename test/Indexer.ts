@@ -0,0 +1,173 @@
+import { PrivLottery, PrivLottery__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { AddressInfo } from "net";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "hardhat";
+import { createIndexerApi, getCheckpoint, openIndexDb, queryRound, syncIndexer, IndexerDb } from "../scripts/lib/indexer";
+import { RoundStatus } from "../scripts/lib/keeper";
+import { decryptWinningNumber, guessAtDistance, seedEntries, settleAndFinalize } from "./helpers/settlement";
+
+describe("Indexer", function () {
+  let treasury: HardhatEthersSigner;
+  let players: HardhatEthersSigner[];
+  let lotteryContract: PrivLottery;
+  let db: IndexerDb;
+  let startBlock: number;
+
+  const silent = () => {};
+
+  function sync() {
+    return syncIndexer({ lottery: lotteryContract, db, startBlock, log: silent });
+  }
+
+  before(async function () {
+    let signers: HardhatEthersSigner[];
+    [, treasury, ...signers] = await ethers.getSigners();
+    players = signers.slice(0, 4);
+  });
+
+  beforeEach(async function () {
+    const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+    const factory = (await ethers.getContractFactory("PrivLottery", {
+      libraries: { LotteryScoring: await scoring.getAddress() },
+    })) as PrivLottery__factory;
+    lotteryContract = (await factory.deploy(treasury.address, ethers.ZeroAddress)) as PrivLottery;
+    startBlock = (await lotteryContract.deploymentTransaction()!.wait())!.blockNumber;
+    db = openIndexDb(":memory:");
+  });
+
+  afterEach(function () {
+    if (db.open) db.close();
+  });
+
+  async function playRound() {
+    const w = await decryptWinningNumber(lotteryContract);
+    await seedEntries(lotteryContract, [
+      { player: players[0], guess: guessAtDistance(w, 0), confidence: 90 },
+      { player: players[1], guess: guessAtDistance(w, 100), confidence: 50 },
+      { player: players[2], guess: guessAtDistance(w, 400), confidence: 60 },
+    ]);
+    return settleAndFinalize(lotteryContract);
+  }
+
+  it("should index a finalized round with its participants and winners", async function () {
+    const roundId = await playRound();
+    expect(await sync()).to.be.greaterThan(0);
+
+    const round = queryRound(db, Number(roundId))!;
+    expect(round.status).to.eq(RoundStatus.Completed);
+    expect(round.participantCount).to.eq(3);
+    expect(round.scoresComputed).to.eq(3);
+    expect(round.winningNumber).to.eq(await decryptWinningNumber(lotteryContract, roundId));
+    expect(round.prizePool).to.eq(ethers.parseEther("0.003").toString());
+    expect(round.config.platformFeeBps).to.eq("100");
+    expect(round.participants.map((p) => p.address)).to.deep.eq(players.slice(0, 3).map((p) => p.address));
+
+    const winners = await lotteryContract.getRoundWinners(roundId);
+    expect(round.winners).to.have.length(3);
+    round.winners.forEach((winner, category) => {
+      expect(winner.address).to.eq(winners[category].addr);
+      expect(winner.prize).to.eq(winners[category].prize.toString());
+      expect(winner.score).to.eq(Number(winners[category].score));
+      expect(winner.coWinner).to.eq(false);
+    });
+
+    // The next round was started by finalization
+    expect(queryRound(db, Number(roundId) + 1)!.status).to.eq(RoundStatus.Active);
+  });
+
+  it("should resume from its checkpoint without re-ingesting events", async function () {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")), "index.sqlite");
+    db.close();
+    db = openIndexDb(file);
+
+    await seedEntries(lotteryContract, [{ player: players[0], guess: 1, confidence: 1 }]);
+    expect(await sync()).to.eq(2); // RoundStarted and the first entry
+    db.close();
+
+    db = openIndexDb(file);
+    expect(getCheckpoint(db)!.blockNumber).to.eq(await ethers.provider.getBlockNumber());
+    expect(await sync()).to.eq(0);
+
+    await seedEntries(lotteryContract, [{ player: players[1], guess: 2, confidence: 2 }]);
+    expect(await sync()).to.eq(1);
+    expect(queryRound(db, 1)!.participantCount).to.eq(2);
+  });
+
+  it("should roll back and rebuild rounds after a reorg", async function () {
+    await seedEntries(lotteryContract, [{ player: players[0], guess: 1, confidence: 1 }]);
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+
+    await seedEntries(lotteryContract, [
+      { player: players[1], guess: 2, confidence: 2 },
+      { player: players[2], guess: 3, confidence: 3 },
+    ]);
+    await sync();
+    expect(queryRound(db, 1)!.participantCount).to.eq(3);
+
+    // Replace the last two blocks with a single, different entry
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await seedEntries(lotteryContract, [{ player: players[3], guess: 4, confidence: 4 }]);
+    await ethers.provider.send("evm_mine", []);
+    await sync();
+
+    const round = queryRound(db, 1)!;
+    expect(round.participantCount).to.eq(2);
+    expect(round.participants.map((p) => p.address)).to.deep.eq([players[0].address, players[3].address]);
+    expect(getCheckpoint(db)!.blockHash).to.eq((await ethers.provider.getBlock("latest"))!.hash);
+  });
+
+  it("should serve round history as JSON", async function () {
+    const roundId = await playRound();
+    await sync();
+
+    const server = createIndexerApi(db).listen(0);
+    try {
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      const rounds = await (await fetch(`${baseUrl}/rounds?status=completed`)).json();
+      expect(rounds.map((round: any) => round.roundId)).to.deep.eq([Number(roundId)]);
+      expect(rounds[0].winners).to.have.length(3);
+
+      const participants = await (await fetch(`${baseUrl}/rounds/${roundId}/participants`)).json();
+      expect(participants).to.have.length(3);
+
+      const entries = await (await fetch(`${baseUrl}/players/${players[1].address.toLowerCase()}`)).json();
+      expect(entries).to.deep.eq([{ roundId: Number(roundId), participantIndex: 1, txHash: participants[1].txHash }]);
+
+      expect((await fetch(`${baseUrl}/rounds/99`)).status).to.eq(404);
+      expect((await fetch(`${baseUrl}/rounds?status=pending`)).status).to.eq(400);
+    } finally {
+      server.close();
+    }
+  });
+
+  it("should reject malformed query strings without stopping the API", async function () {
+    await playRound();
+    await sync();
+
+    const server = createIndexerApi(db).listen(0);
+    try {
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+      expect((await fetch(`${baseUrl}/rounds?limit=abc`)).status).to.eq(400);
+      expect((await fetch(`${baseUrl}/rounds?limit=-1`)).status).to.eq(400);
+      expect((await fetch(`${baseUrl}/rounds?limit=101`)).status).to.eq(400);
+      expect((await fetch(`${baseUrl}/rounds?status=toString`)).status).to.eq(400);
+      expect((await fetch(`${baseUrl}/rounds?before=1.5`)).status).to.eq(400);
+
+      const rounds = await (await fetch(`${baseUrl}/rounds?limit=1`)).json();
+      expect(rounds).to.have.length(1);
+
+      // A failing query answers 500 and leaves the server running
+      db.close();
+      expect((await fetch(`${baseUrl}/rounds`)).status).to.eq(500);
+      expect((await fetch(`${baseUrl}/rounds/1`)).status).to.eq(500);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,207 @@
+import { PrivLottery, PrivLottery__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, fhevm } from "hardhat";
+import { keeperTick, loadKeeperState, nextKeeperAction, KeeperAction } from "../scripts/lib/keeper";
+
+describe("Keeper", function () {
+  let signers: HardhatEthersSigner[];
+  let lotteryContract: PrivLottery;
+  let lotteryContractAddress: string;
+  let stateFile: string;
+
+  const silent = () => {};
+
+  async function enter(signer: HardhatEthersSigner, guess: number, confidence: number) {
+    const encrypted = await fhevm
+      .createEncryptedInput(lotteryContractAddress, signer.address)
+      .add32(guess)
+      .add32(confidence)
+      .encrypt();
+
+    await lotteryContract
+      .connect(signer)
+      .submitPrediction(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+        value: ethers.parseEther("0.001"),
+      });
+  }
+
+  async function endRound() {
+    const round = await lotteryContract.getCurrentRound();
+    await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  async function runUntilIdle(batchSize = 2): Promise<KeeperAction[]> {
+    const actions: KeeperAction[] = [];
+    for (let i = 0; i < 20; i++) {
+      const action = await keeperTick({
+        lottery: lotteryContract,
+        decryptor: fhevm,
+        batchSize,
+        stateFile,
+        log: silent,
+      });
+      if (action === "idle") break;
+      actions.push(action);
+    }
+    return actions;
+  }
+
+  before(async function () {
+    signers = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+    const factory = (await ethers.getContractFactory("PrivLottery", {
+      libraries: { LotteryScoring: await scoring.getAddress() },
+    })) as PrivLottery__factory;
+    lotteryContract = (await factory.deploy(signers[1].address, ethers.ZeroAddress)) as PrivLottery;
+    lotteryContractAddress = await lotteryContract.getAddress();
+    stateFile = path.join(os.tmpdir(), `keeper-state-${Date.now()}.json`);
+  });
+
+  afterEach(function () {
+    if (fs.existsSync(stateFile)) fs.unlinkSync(stateFile);
+  });
+
+  it("should stay idle while the round is open", async function () {
+    await enter(signers[2], 500, 50);
+    expect(await nextKeeperAction(lotteryContract)).to.eq("idle");
+    expect(await runUntilIdle()).to.deep.eq([]);
+  });
+
+  it("should cancel a round with too few participants", async function () {
+    await enter(signers[2], 500, 50);
+    await endRound();
+
+    expect(await runUntilIdle()).to.deep.eq(["cancel"]);
+
+    const cancelled = await lotteryContract.rounds(1);
+    expect(cancelled.status).to.eq(3); // Cancelled
+    expect((await lotteryContract.getCurrentRound()).roundId).to.eq(2n);
+  });
+
+  it("should extend a short round while extensions remain", async function () {
+    const config = await lotteryContract.roundConfig();
+    await lotteryContract.setRoundConfig({
+      duration: config.duration,
+      entryPrice: config.entryPrice,
+      maxParticipants: config.maxParticipants,
+      maxEntriesPerAddress: config.maxEntriesPerAddress,
+      extensionDuration: 10 * 60,
+      maxExtensions: 1,
+      claimWindow: config.claimWindow,
+      feeRolloverBps: config.feeRolloverBps,
+      platformFeeBps: config.platformFeeBps,
+      convictionShareBps: config.convictionShareBps,
+      accuracyShareBps: config.accuracyShareBps,
+      calibrationShareBps: config.calibrationShareBps,
+    });
+    await lotteryContract.applyConfigToCurrentRound();
+
+    await enter(signers[2], 500, 50);
+    await endRound();
+    expect(await runUntilIdle()).to.deep.eq(["extend"]);
+    expect((await lotteryContract.getCurrentRound()).extensionCount).to.eq(1n);
+
+    await endRound();
+    expect(await runUntilIdle()).to.deep.eq(["cancel"]);
+    expect((await lotteryContract.getCurrentRound()).roundId).to.eq(2n);
+  });
+
+  it("should settle, score, reveal and finalize a full round", async function () {
+    await enter(signers[2], 500, 90);
+    await enter(signers[3], 400, 50);
+    await enter(signers[4], 600, 70);
+    await enter(signers[5], 100, 10);
+    await endRound();
+
+    const actions = await runUntilIdle(3);
+    expect(actions).to.deep.eq([
+      "settle",
+      "computeScores",
+      "computeScores",
+      "requestReveal",
+      "revealIndices",
+      "finalize",
+    ]);
+
+    const completed = await lotteryContract.rounds(1);
+    expect(completed.status).to.eq(2); // Completed
+    expect(completed.isSettled).to.eq(true);
+    expect((await lotteryContract.getCurrentRound()).roundId).to.eq(2n);
+
+    const winnerAddresses = new Set(
+      [signers[2], signers[3], signers[4], signers[5]].map((s) => s.address)
+    );
+    const winners = await lotteryContract.getRoundWinners(1);
+    for (const winner of winners) {
+      expect(winnerAddresses.has(winner.addr)).to.eq(true);
+      expect(winner.prize).to.be.gt(0n);
+    }
+
+    const state = loadKeeperState(stateFile);
+    expect(state.roundId).to.eq("1");
+    expect(state.lastAction).to.eq("finalize");
+    expect(state.pendingTx).to.eq(null);
+  });
+
+  it("should finalize a round whose last category only has an out-of-range entry", async function () {
+    await enter(signers[2], 5000, 100);
+    await enter(signers[3], 400, 50);
+    await enter(signers[4], 600, 70);
+    await endRound();
+
+    const actions = await runUntilIdle(3);
+    expect(actions).to.deep.eq(["settle", "computeScores", "requestReveal", "revealIndices", "finalize"]);
+    expect((await lotteryContract.rounds(1)).status).to.eq(2); // Completed
+
+    const winners = await lotteryContract.getRoundWinners(1);
+    expect(winners[2].addr).to.eq(ethers.ZeroAddress);
+    expect(await lotteryContract.claimable(signers[2].address)).to.eq(0n);
+  });
+
+  it("should resubmit the step of a pending transaction that never gets mined", async function () {
+    await enter(signers[2], 500, 90);
+    await enter(signers[3], 400, 50);
+    await enter(signers[4], 600, 70);
+    await endRound();
+
+    // Recorded before a restart, then dropped from the mempool
+    fs.writeFileSync(
+      stateFile,
+      JSON.stringify({ roundId: "1", lastAction: "settle", pendingTx: ethers.hexlify(ethers.randomBytes(32)) })
+    );
+
+    const options = { lottery: lotteryContract, decryptor: fhevm, stateFile, txTimeoutMs: 100, log: silent };
+    expect(await keeperTick(options)).to.eq("settle");
+    expect((await lotteryContract.rounds(1)).status).to.eq(1); // Settling
+    expect(loadKeeperState(stateFile).pendingTx).to.eq(null);
+  });
+
+  it("should resume from a partially settled round", async function () {
+    await enter(signers[2], 500, 90);
+    await enter(signers[3], 400, 50);
+    await enter(signers[4], 600, 70);
+    await endRound();
+
+    // Someone else settles and scores part of the round before the keeper starts
+    await lotteryContract.settleRound();
+    await lotteryContract.computeScoresBatch(1, 1);
+
+    const actions = await runUntilIdle(1);
+    expect(actions).to.deep.eq([
+      "computeScores",
+      "computeScores",
+      "requestReveal",
+      "revealIndices",
+      "finalize",
+    ]);
+    expect((await lotteryContract.rounds(1)).status).to.eq(2); // Completed
+  });
+});
@@ -0,0 +1,115 @@
+import { PrivLottery, PrivLotteryFactory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+
+async function deployFixture() {
+  const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+  const deployerContract = await (
+    await ethers.getContractFactory("PrivLotteryDeployer", {
+      libraries: { LotteryScoring: await scoring.getAddress() },
+    })
+  ).deploy();
+  const factory = (await (
+    await ethers.getContractFactory("PrivLotteryFactory")
+  ).deploy(await deployerContract.getAddress())) as PrivLotteryFactory;
+
+  return { factory };
+}
+
+describe("PrivLotteryFactory", function () {
+  const config = {
+    duration: 60 * 60,
+    entryPrice: ethers.parseEther("0.0005"),
+    maxParticipants: 10,
+    maxEntriesPerAddress: 1,
+    extensionDuration: 10 * 60,
+    maxExtensions: 0,
+    claimWindow: 0,
+    feeRolloverBps: 0,
+    platformFeeBps: 50,
+    convictionShareBps: 4000,
+    accuracyShareBps: 4000,
+    calibrationShareBps: 2000,
+  };
+  const SPLIT_EVENLY = 1;
+
+  let treasury: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let factory: PrivLotteryFactory;
+
+  before(async function () {
+    [, treasury, alice, bob] = await ethers.getSigners();
+  });
+
+  beforeEach(async () => {
+    ({ factory } = await deployFixture());
+  });
+
+  async function createLottery(creator: HardhatEthersSigner, name: string) {
+    await factory.connect(creator).createLottery(name, treasury.address, ethers.ZeroAddress, config, SPLIT_EVENLY);
+    const info = await factory.getLottery((await factory.lotteryCount()) - 1n);
+    return (await ethers.getContractAt("PrivLottery", info.lottery)) as unknown as PrivLottery;
+  }
+
+  it("should deploy a configured instance owned by the creator", async function () {
+    await expect(factory.connect(alice).createLottery("Hourly", treasury.address, ethers.ZeroAddress, config, SPLIT_EVENLY)).to.emit(
+      factory,
+      "LotteryCreated"
+    );
+
+    const info = await factory.getLottery(0);
+    const lottery = (await ethers.getContractAt("PrivLottery", info.lottery)) as unknown as PrivLottery;
+
+    expect(info.name).to.eq("Hourly");
+    expect(info.creator).to.eq(alice.address);
+    expect(await factory.isLottery(info.lottery)).to.eq(true);
+    expect(await lottery.owner()).to.eq(alice.address);
+    expect(await lottery.treasury()).to.eq(treasury.address);
+    expect(await lottery.getRoundTiePolicy(1)).to.eq(SPLIT_EVENLY);
+
+    // The first round already runs on the requested config
+    const round = await lottery.getCurrentRound();
+    expect(round.endTime - round.startTime).to.eq(BigInt(config.duration));
+    expect((await lottery.getRoundConfig(1)).entryPrice).to.eq(config.entryPrice);
+  });
+
+  it("should keep a registry of every instance", async function () {
+    const first = await createLottery(alice, "Hourly");
+    const second = await createLottery(bob, "Daily");
+
+    expect(await factory.lotteryCount()).to.eq(2n);
+    const lotteries = await factory.getLotteries();
+    expect(lotteries.map((l) => l.lottery)).to.deep.eq([await first.getAddress(), await second.getAddress()]);
+    expect(lotteries.map((l) => l.name)).to.deep.eq(["Hourly", "Daily"]);
+    expect(await factory.isLottery(treasury.address)).to.eq(false);
+
+    await expect(factory.getLottery(2)).to.be.revertedWithCustomError(factory, "LotteryNotFound");
+  });
+
+  it("should reject invalid configs", async function () {
+    await expect(
+      factory.createLottery("Broken", treasury.address, ethers.ZeroAddress, { ...config, calibrationShareBps: 0 }, SPLIT_EVENLY)
+    ).to.be.reverted;
+  });
+
+  it("should run instances independently", async function () {
+    const first = await createLottery(alice, "Hourly");
+    const second = await createLottery(bob, "Daily");
+
+    const encrypted = await fhevm
+      .createEncryptedInput(await first.getAddress(), alice.address)
+      .add32(500)
+      .add32(50)
+      .encrypt();
+    await first
+      .connect(alice)
+      .submitPrediction(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+        value: config.entryPrice,
+      });
+
+    expect((await first.getCurrentRound()).participantCount).to.eq(1n);
+    expect((await second.getCurrentRound()).participantCount).to.eq(0n);
+  });
+});
@@ -1,8 +1,19 @@
-import { PrivLottery, PrivLottery__factory } from "../types";
+import {
+  MockConfidentialToken,
+  MockConfidentialToken__factory,
+  MockERC20Permit,
+  MockERC20Permit__factory,
+  PrivLottery,
+  PrivLottery__factory,
+  RejectingReceiver,
+  RejectingReceiver__factory,
+} from "../types";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { expect } from "chai";
 import { ethers, fhevm } from "hardhat";
+import { selectWinners } from "../shared/scoring";
+import { settleAndFinalize } from "./helpers/settlement";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -13,12 +24,20 @@ type Signers = {
   dave: HardhatEthersSigner;
 };
 
+// PrivLottery links the LotteryScoring library
+async function getLotteryFactory() {
+  const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+  return (await ethers.getContractFactory("PrivLottery", {
+    libraries: { LotteryScoring: await scoring.getAddress() },
+  })) as PrivLottery__factory;
+}
+
 async function deployFixture() {
   const signers = await ethers.getSigners();
   const treasury = signers[1];
   
-  const factory = (await ethers.getContractFactory("PrivLottery")) as PrivLottery__factory;
-  const lotteryContract = (await factory.deploy(treasury.address)) as PrivLottery;
+  const factory = await getLotteryFactory();
+  const lotteryContract = (await factory.deploy(treasury.address, ethers.ZeroAddress)) as PrivLottery;
   const lotteryContractAddress = await lotteryContract.getAddress();
 
   return { lotteryContract, lotteryContractAddress, treasury };
@@ -45,6 +64,28 @@ describe("PrivLottery", function () {
     ({ lotteryContract, lotteryContractAddress } = await deployFixture());
   });
 
+  async function enter(
+    signer: HardhatEthersSigner,
+    guess: number,
+    confidence: number,
+    value: bigint = ethers.parseEther("0.001")
+  ) {
+    const encrypted = await fhevm
+      .createEncryptedInput(lotteryContractAddress, signer.address)
+      .add32(guess)
+      .add32(confidence)
+      .encrypt();
+
+    await lotteryContract
+      .connect(signer)
+      .submitPrediction(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value });
+  }
+
+  // Settle, score (in the given batch order), reveal and finalize the current round
+  async function finalizeCurrentRound(batches?: [number, number][]) {
+    return settleAndFinalize(lotteryContract, { batches });
+  }
+
   describe("Deployment", function () {
     it("should deploy successfully", async function () {
       expect(ethers.isAddress(lotteryContractAddress)).to.eq(true);
@@ -57,8 +98,8 @@ describe("PrivLottery", function () {
     });
 
     it("should set correct entry fee", async function () {
-      const entryFee = await lotteryContract.ENTRY_PRICE();
-      expect(entryFee).to.eq(ethers.parseEther("0.001"));
+      const config = await lotteryContract.getRoundConfig(1);
+      expect(config.entryPrice).to.eq(ethers.parseEther("0.001"));
     });
 
     it("should set correct treasury address", async function () {
@@ -74,13 +115,145 @@ describe("PrivLottery", function () {
     });
 
     it("should have correct prize distribution", async function () {
-      const convictionShare = await lotteryContract.CONVICTION_SHARE_BPS();
-      const accuracyShare = await lotteryContract.ACCURACY_SHARE_BPS();
-      const calibrationShare = await lotteryContract.CALIBRATION_SHARE_BPS();
+      const config = await lotteryContract.getRoundConfig(1);
       
-      expect(convictionShare).to.eq(5000n); // 50%
-      expect(accuracyShare).to.eq(3000n);   // 30%
-      expect(calibrationShare).to.eq(2000n); // 20%
+      expect(config.convictionShareBps).to.eq(5000n); // 50%
+      expect(config.accuracyShareBps).to.eq(3000n);   // 30%
+      expect(config.calibrationShareBps).to.eq(2000n); // 20%
+    });
+  });
+
+  describe("Round Configuration", function () {
+    const newConfig = {
+      duration: 2 * 60 * 60,
+      entryPrice: ethers.parseEther("0.002"),
+      maxParticipants: 4,
+      maxEntriesPerAddress: 2,
+      extensionDuration: 15 * 60,
+      maxExtensions: 2,
+      claimWindow: 7 * 24 * 60 * 60,
+      feeRolloverBps: 2500,
+      platformFeeBps: 200,
+      convictionShareBps: 6000,
+      accuracyShareBps: 2500,
+      calibrationShareBps: 1500,
+    };
+
+    async function startNextRound() {
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await lotteryContract.cancelRound();
+    }
+
+    it("should only let the owner update the config", async function () {
+      await expect(
+        lotteryContract.connect(signers.alice).setRoundConfig(newConfig)
+      ).to.be.revertedWithCustomError(lotteryContract, "NotOwner");
+      await expect(lotteryContract.setRoundConfig(newConfig)).to.emit(lotteryContract, "RoundConfigUpdated");
+    });
+
+    it("should reject invalid configs", async function () {
+      const invalid = [
+        { ...newConfig, duration: 0 },
+        { ...newConfig, entryPrice: 0n },
+        { ...newConfig, maxParticipants: 2 },
+        { ...newConfig, maxParticipants: 129 },
+        { ...newConfig, maxEntriesPerAddress: 0 },
+        { ...newConfig, maxEntriesPerAddress: 5 },
+        { ...newConfig, extensionDuration: 0 },
+        { ...newConfig, feeRolloverBps: 10001 },
+        { ...newConfig, platformFeeBps: 1001 },
+        { ...newConfig, calibrationShareBps: 1000 },
+      ];
+      for (const config of invalid) {
+        await expect(lotteryContract.setRoundConfig(config)).to.be.revertedWithCustomError(
+          lotteryContract,
+          "InvalidConfig"
+        );
+      }
+    });
+
+    it("should snapshot the config into the next round only", async function () {
+      await lotteryContract.setRoundConfig(newConfig);
+
+      // The current round keeps its entry price
+      expect((await lotteryContract.getRoundConfig(1)).entryPrice).to.eq(ethers.parseEther("0.001"));
+      await enter(signers.alice, 500, 50);
+
+      await startNextRound();
+
+      const round = await lotteryContract.getCurrentRound();
+      const config = await lotteryContract.getRoundConfig(round.roundId);
+      expect(config.entryPrice).to.eq(newConfig.entryPrice);
+      expect(config.maxParticipants).to.eq(4n);
+      expect(config.maxEntriesPerAddress).to.eq(2n);
+      expect(round.endTime - round.startTime).to.eq(BigInt(newConfig.duration));
+
+      // Alice's refund uses the price she paid in round 1
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(ethers.parseEther("0.001"));
+
+      await expect(enter(signers.alice, 500, 50)).to.be.revertedWithCustomError(
+        lotteryContract,
+        "IncorrectEntryFee"
+      );
+    });
+
+    it("should restart an empty round with the latest config", async function () {
+      await lotteryContract.setRoundConfig(newConfig);
+      await expect(lotteryContract.applyConfigToCurrentRound()).to.emit(lotteryContract, "RoundStarted");
+
+      const round = await lotteryContract.getCurrentRound();
+      expect(round.roundId).to.eq(1n);
+      expect(round.endTime - round.startTime).to.eq(BigInt(newConfig.duration));
+      expect((await lotteryContract.getRoundConfig(1)).entryPrice).to.eq(newConfig.entryPrice);
+
+      await enter(signers.alice, 500, 50, newConfig.entryPrice);
+      await expect(lotteryContract.applyConfigToCurrentRound()).to.be.revertedWithCustomError(
+        lotteryContract,
+        "RoundNotEmpty"
+      );
+    });
+
+    it("should transfer ownership", async function () {
+      await expect(lotteryContract.transferOwnership(signers.alice.address))
+        .to.emit(lotteryContract, "OwnershipTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+      expect(await lotteryContract.owner()).to.eq(signers.alice.address);
+
+      await expect(lotteryContract.setRoundConfig(newConfig)).to.be.revertedWithCustomError(
+        lotteryContract,
+        "NotOwner"
+      );
+      await expect(
+        lotteryContract.connect(signers.alice).transferOwnership(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(lotteryContract, "InvalidOwner");
+    });
+
+    it("should use the round's fee and shares at finalization", async function () {
+      await lotteryContract.setRoundConfig(newConfig);
+      await startNextRound();
+
+      const players = [signers.alice, signers.bob, signers.charlie, signers.dave];
+      for (const [i, player] of players.entries()) {
+        await enter(player, 100 + i * 200, 50, newConfig.entryPrice);
+      }
+      await expect(
+        enter(signers.deployer, 500, 50, newConfig.entryPrice)
+      ).to.be.revertedWithCustomError(lotteryContract, "RoundFull");
+
+      const roundId = await finalizeCurrentRound();
+
+      const pool = newConfig.entryPrice * 4n;
+      const fee = (pool * 200n) / 10000n;
+      const seed = (fee * 2500n) / 10000n;
+      const distributable = pool - fee;
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(await lotteryContract.claimable(signers.treasury.address)).to.eq(fee - seed);
+      expect((await lotteryContract.getCurrentRound()).carriedOver).to.eq(seed);
+      expect(winners[0].prize).to.eq((distributable * 6000n) / 10000n);
+      expect(winners[1].prize).to.eq((distributable * 2500n) / 10000n);
+      expect(winners[2].prize).to.eq((distributable * 1500n) / 10000n);
     });
   });
 
@@ -130,7 +303,7 @@ describe("PrivLottery", function () {
       ).to.be.revertedWithCustomError(lotteryContract, "IncorrectEntryFee");
     });
 
-    it("should reject duplicate entries", async function () {
+    it("should reject entries beyond the per-address cap", async function () {
       const encryptedInput = await fhevm
         .createEncryptedInput(lotteryContractAddress, signers.alice.address)
         .add32(500)
@@ -161,7 +334,7 @@ describe("PrivLottery", function () {
             encryptedInput2.inputProof,
             { value: ethers.parseEther("0.001") }
           )
-      ).to.be.revertedWithCustomError(lotteryContract, "AlreadyParticipated");
+      ).to.be.revertedWithCustomError(lotteryContract, "EntryLimitReached");
     });
 
     it("should update pool total after entries", async function () {
@@ -213,8 +386,8 @@ describe("PrivLottery", function () {
     });
 
     it("should emit RoundStarted event on deployment", async function () {
-      const factory = (await ethers.getContractFactory("PrivLottery")) as PrivLottery__factory;
-      const newContract = await factory.deploy(signers.treasury.address);
+      const factory = await getLotteryFactory();
+      const newContract = await factory.deploy(signers.treasury.address, ethers.ZeroAddress);
       await newContract.waitForDeployment();
       
       // Verify round was started by checking round data
@@ -348,7 +521,9 @@ describe("PrivLottery", function () {
       // Cancel round
       await lotteryContract.cancelRound();
 
-      // Alice should be refunded
+      // Alice's refund is credited and she claims it
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(entryFee);
+      await lotteryContract.connect(signers.alice).claim();
       const aliceBalanceAfter = await ethers.provider.getBalance(signers.alice.address);
       expect(aliceBalanceAfter).to.be.gt(aliceBalanceBefore);
 
@@ -391,6 +566,977 @@ describe("PrivLottery", function () {
     });
   });
 
+  describe("Round Extensions", function () {
+    const EXTENSION_DURATION = 15 * 60;
+
+    beforeEach(async function () {
+      const config = await lotteryContract.roundConfig();
+      await lotteryContract.setRoundConfig({
+        duration: config.duration,
+        entryPrice: config.entryPrice,
+        maxParticipants: config.maxParticipants,
+        maxEntriesPerAddress: config.maxEntriesPerAddress,
+        extensionDuration: EXTENSION_DURATION,
+        maxExtensions: 2,
+        claimWindow: 0,
+        feeRolloverBps: 0,
+        platformFeeBps: config.platformFeeBps,
+        convictionShareBps: config.convictionShareBps,
+        accuracyShareBps: config.accuracyShareBps,
+        calibrationShareBps: config.calibrationShareBps,
+      });
+      await lotteryContract.applyConfigToCurrentRound();
+    });
+
+    async function passEndTime() {
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    it("should extend a short round and carry its entries into settlement", async function () {
+      await enter(signers.alice, 400, 40);
+      await passEndTime();
+
+      await expect(lotteryContract.cancelRound()).to.be.revertedWithCustomError(lotteryContract, "ExtensionAvailable");
+      await expect(lotteryContract.extendRound()).to.emit(lotteryContract, "RoundExtended");
+
+      const round = await lotteryContract.getCurrentRound();
+      const block = await ethers.provider.getBlock("latest");
+      expect(round.roundId).to.eq(1n);
+      expect(round.extensionCount).to.eq(1n);
+      expect(round.endTime).to.eq(BigInt(block!.timestamp + EXTENSION_DURATION));
+      await expect(lotteryContract.extendRound()).to.be.revertedWithCustomError(lotteryContract, "RoundNotEnded");
+
+      // Later entries join the same round
+      await enter(signers.bob, 500, 50);
+      await enter(signers.charlie, 600, 60);
+      await passEndTime();
+
+      await expect(lotteryContract.extendRound()).to.be.revertedWith("Use settleRound instead");
+      await lotteryContract.settleRound();
+      expect((await lotteryContract.getCurrentRound()).participantCount).to.eq(3n);
+    });
+
+    it("should cancel only once the extensions run out", async function () {
+      await enter(signers.alice, 400, 40);
+
+      for (let i = 0; i < 2; i++) {
+        await passEndTime();
+        await lotteryContract.extendRound();
+      }
+      await passEndTime();
+      await expect(lotteryContract.extendRound()).to.be.revertedWithCustomError(lotteryContract, "CannotExtend");
+
+      await expect(lotteryContract.cancelRound()).to.emit(lotteryContract, "RoundCancelled");
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(ethers.parseEther("0.001"));
+    });
+
+    it("should cancel an empty round without extending it", async function () {
+      await passEndTime();
+
+      await expect(lotteryContract.extendRound()).to.be.revertedWithCustomError(lotteryContract, "CannotExtend");
+      await lotteryContract.cancelRound();
+      expect((await lotteryContract.getCurrentRound()).roundId).to.eq(2n);
+    });
+  });
+
+  describe("Rollover", function () {
+    const CLAIM_WINDOW = 7 * 24 * 60 * 60;
+    const ENTRY_PRICE = ethers.parseEther("0.001");
+
+    beforeEach(async function () {
+      const config = await lotteryContract.roundConfig();
+      await lotteryContract.setRoundConfig({
+        duration: config.duration,
+        entryPrice: config.entryPrice,
+        maxParticipants: config.maxParticipants,
+        maxEntriesPerAddress: config.maxEntriesPerAddress,
+        extensionDuration: config.extensionDuration,
+        maxExtensions: config.maxExtensions,
+        claimWindow: CLAIM_WINDOW,
+        feeRolloverBps: 0,
+        platformFeeBps: config.platformFeeBps,
+        convictionShareBps: config.convictionShareBps,
+        accuracyShareBps: config.accuracyShareBps,
+        calibrationShareBps: config.calibrationShareBps,
+      });
+      await lotteryContract.applyConfigToCurrentRound();
+    });
+
+    async function cancelCurrentRound() {
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await lotteryContract.cancelRound();
+    }
+
+    it("should carry contributions through cancelled rounds and charge fees on new entries only", async function () {
+      const contribution = ethers.parseEther("0.01");
+      await expect(
+        lotteryContract.connect(signers.dave).fundRollover(contribution, { value: contribution })
+      ).to.emit(lotteryContract, "RolloverFunded").withArgs(signers.dave.address, contribution);
+      await expect(
+        lotteryContract.fundRollover(contribution, { value: 0 })
+      ).to.be.revertedWithCustomError(lotteryContract, "IncorrectEntryFee");
+
+      await expect(cancelCurrentRound()).to.not.be.reverted;
+      let round = await lotteryContract.getCurrentRound();
+      expect(round.carriedOver).to.eq(contribution);
+      expect(round.prizePool).to.eq(contribution);
+
+      // A cancelled round refunds its entries but passes the carried-over amount on
+      await enter(signers.alice, 400, 40);
+      await cancelCurrentRound();
+      round = await lotteryContract.getCurrentRound();
+      expect(round.roundId).to.eq(3n);
+      expect(round.carriedOver).to.eq(contribution);
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(ENTRY_PRICE);
+
+      for (const [i, player] of [signers.alice, signers.bob, signers.charlie].entries()) {
+        await enter(player, 100 + i * 300, 50);
+      }
+      const roundId = await finalizeCurrentRound();
+
+      const fee = (ENTRY_PRICE * 3n * 100n) / 10000n;
+      const distributable = contribution + ENTRY_PRICE * 3n - fee;
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(await lotteryContract.claimable(signers.treasury.address)).to.eq(fee);
+      expect(winners[0].prize).to.eq((distributable * 5000n) / 10000n);
+      expect((await lotteryContract.getCurrentRound()).carriedOver).to.eq(0n);
+    });
+
+    it("should roll prizes left unclaimed past the claim window into the next round", async function () {
+      for (const [i, player] of [signers.alice, signers.bob, signers.charlie].entries()) {
+        await enter(player, 100 + i * 300, 50);
+      }
+      const roundId = await finalizeCurrentRound();
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      const [claimer, ...idle] = winners;
+
+      await lotteryContract.connect(await ethers.getSigner(claimer.addr)).claim();
+      await expect(lotteryContract.rollOverUnclaimedPrizes(roundId)).to.be.revertedWithCustomError(
+        lotteryContract,
+        "ClaimWindowOpen"
+      );
+      await expect(lotteryContract.rollOverUnclaimedPrizes(2)).to.be.revertedWithCustomError(
+        lotteryContract,
+        "RoundNotCompleted"
+      );
+
+      await ethers.provider.send("evm_increaseTime", [CLAIM_WINDOW]);
+      await ethers.provider.send("evm_mine", []);
+
+      const unclaimed = idle[0].prize + idle[1].prize;
+      await expect(lotteryContract.rollOverUnclaimedPrizes(roundId))
+        .to.emit(lotteryContract, "UnclaimedPrizesRolledOver")
+        .withArgs(roundId, unclaimed);
+      await expect(lotteryContract.rollOverUnclaimedPrizes(roundId)).to.be.revertedWithCustomError(
+        lotteryContract,
+        "AlreadyRolledOver"
+      );
+
+      expect(await lotteryContract.rolloverPool()).to.eq(unclaimed);
+      for (const winner of idle) {
+        expect(await lotteryContract.claimable(winner.addr)).to.eq(0n);
+      }
+
+      // The next round ended while the claim window ran
+      await lotteryContract.cancelRound();
+      expect((await lotteryContract.getCurrentRound()).carriedOver).to.eq(unclaimed);
+    });
+  });
+
+  describe("Sponsorship", function () {
+    const SPONSORSHIP = ethers.parseEther("0.02");
+
+    it("should add sponsorships to the open pool and keep them out of the fee", async function () {
+      await expect(
+        lotteryContract.connect(signers.dave).sponsorRound(1, "Good luck!", { value: SPONSORSHIP })
+      )
+        .to.emit(lotteryContract, "RoundSponsored")
+        .withArgs(1n, signers.dave.address, SPONSORSHIP, "Good luck!");
+      await expect(
+        lotteryContract.sponsorRound(2, "", { value: SPONSORSHIP })
+      ).to.be.revertedWithCustomError(lotteryContract, "RoundNotActive");
+      await expect(lotteryContract.sponsorRound(1, "")).to.be.revertedWithCustomError(
+        lotteryContract,
+        "IncorrectEntryFee"
+      );
+
+      expect(await lotteryContract.sponsorships(1, signers.dave.address)).to.eq(SPONSORSHIP);
+      let round = await lotteryContract.getCurrentRound();
+      expect(round.sponsored).to.eq(SPONSORSHIP);
+      expect(round.prizePool).to.eq(SPONSORSHIP);
+
+      const entryFee = ethers.parseEther("0.001");
+      for (const [i, player] of [signers.alice, signers.bob, signers.charlie].entries()) {
+        await enter(player, 100 + i * 300, 50);
+      }
+      const roundId = await finalizeCurrentRound();
+
+      const fee = (entryFee * 3n * 100n) / 10000n;
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(await lotteryContract.claimable(signers.treasury.address)).to.eq(fee);
+      expect(winners[0].prize).to.eq(((SPONSORSHIP + entryFee * 3n - fee) * 5000n) / 10000n);
+    });
+
+    it("should roll a cancelled round's sponsorships over and reject plain transfers", async function () {
+      await lotteryContract.connect(signers.dave).sponsorRound(1, "", { value: SPONSORSHIP });
+      await expect(
+        signers.dave.sendTransaction({ to: lotteryContractAddress, value: SPONSORSHIP })
+      ).to.be.reverted;
+
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await lotteryContract.cancelRound();
+
+      const next = await lotteryContract.getCurrentRound();
+      expect(next.carriedOver).to.eq(SPONSORSHIP);
+      expect(next.sponsored).to.eq(0n);
+      expect(await ethers.provider.getBalance(lotteryContractAddress)).to.eq(SPONSORSHIP);
+    });
+  });
+
+  describe("Multiple Entries", function () {
+    beforeEach(async function () {
+      const config = await lotteryContract.roundConfig();
+      await lotteryContract.setRoundConfig({
+        duration: config.duration,
+        entryPrice: config.entryPrice,
+        maxParticipants: config.maxParticipants,
+        maxEntriesPerAddress: 3,
+        extensionDuration: config.extensionDuration,
+        maxExtensions: config.maxExtensions,
+        claimWindow: config.claimWindow,
+        feeRolloverBps: config.feeRolloverBps,
+        platformFeeBps: config.platformFeeBps,
+        convictionShareBps: config.convictionShareBps,
+        accuracyShareBps: config.accuracyShareBps,
+        calibrationShareBps: config.calibrationShareBps,
+      });
+      await lotteryContract.applyConfigToCurrentRound();
+    });
+
+    it("should track each address's tickets up to the cap", async function () {
+      await enter(signers.alice, 100, 10);
+      await enter(signers.bob, 200, 20);
+      await enter(signers.alice, 300, 30);
+      await enter(signers.alice, 400, 40);
+
+      expect(await lotteryContract.entryCount(1, signers.alice.address)).to.eq(3n);
+      expect(await lotteryContract.getParticipantIndices(1, signers.alice.address)).to.deep.eq([0n, 2n, 3n]);
+      expect(await lotteryContract.getParticipantIndices(1, signers.bob.address)).to.deep.eq([1n]);
+      expect((await lotteryContract.getCurrentRound()).prizePool).to.eq(ethers.parseEther("0.004"));
+
+      await expect(enter(signers.alice, 500, 50)).to.be.revertedWithCustomError(lotteryContract, "EntryLimitReached");
+
+      // Each ticket is sealed for its owner
+      const entry = await lotteryContract.getEntryHandles(1, 2);
+      const guess = await fhevm.userDecryptEuint(FhevmType.euint32, entry.encryptedGuess, lotteryContractAddress, signers.alice);
+      expect(guess).to.eq(300n);
+    });
+
+    it("should credit every winning ticket held by the same address", async function () {
+      const winningNumber = Number(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, (await lotteryContract.rounds(1)).encryptedWinningNumber)
+      );
+      const direction = winningNumber < 512 ? 1 : -1;
+
+      // Three of four tickets are Alice's, so she holds at least two of the three winning ones
+      await enter(signers.alice, winningNumber, 100);
+      await enter(signers.alice, winningNumber + direction * 10, 90);
+      await enter(signers.bob, winningNumber + direction * 300, 30);
+      await enter(signers.alice, winningNumber + direction * 100, 60);
+
+      const roundId = await finalizeCurrentRound();
+
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      const aliceWins = winners.filter((winner) => winner.addr === signers.alice.address);
+      expect(aliceWins.length).to.be.gte(2);
+
+      const pool = ethers.parseEther("0.004");
+      const fee = pool / 100n;
+      const aliceExpected = aliceWins.reduce((sum, winner) => sum + winner.prize, 0n);
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(aliceExpected);
+      expect(winners.reduce((sum, winner) => sum + winner.prize, 0n)).to.eq(pool - fee);
+    });
+  });
+
+  describe("Runner-up Promotion", function () {
+    it("should promote runners-up when one guess dominates all three categories", async function () {
+      const entryFee = ethers.parseEther("0.001");
+      const roundData = await lotteryContract.rounds(1);
+      const winningNumber = Number(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, roundData.encryptedWinningNumber)
+      );
+      const direction = winningNumber < 512 ? 1 : -1;
+
+      // Alice is exact and fully confident: best conviction, accuracy and calibration.
+      // Accuracy order: alice, bob, charlie, dave
+      // Calibration errors: alice 0, bob 45, dave 55, charlie 60
+      const entries = [
+        { signer: signers.alice, guess: winningNumber, confidence: 100 },
+        { signer: signers.bob, guess: winningNumber + direction * 50, confidence: 50 },
+        { signer: signers.charlie, guess: winningNumber + direction * 200, confidence: 20 },
+        { signer: signers.dave, guess: winningNumber + direction * 400, confidence: 5 },
+      ];
+
+      for (const entry of entries) {
+        const encrypted = await fhevm
+          .createEncryptedInput(lotteryContractAddress, entry.signer.address)
+          .add32(entry.guess)
+          .add32(entry.confidence)
+          .encrypt();
+
+        await lotteryContract
+          .connect(entry.signer)
+          .submitPrediction(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+            value: entryFee,
+          });
+      }
+
+      const roundId = await finalizeCurrentRound();
+
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(winners[0].addr).to.eq(signers.alice.address); // Conviction kept by the leader
+      expect(winners[1].addr).to.eq(signers.bob.address); // Accuracy runner-up promoted
+      expect(winners[2].addr).to.eq(signers.dave.address); // Calibration third place promoted
+      expect(winners[1].distance).to.eq(50);
+      expect(winners[2].distance).to.eq(400);
+      expect(await lotteryContract.getRevealedWinningNumber(roundId)).to.eq(winningNumber);
+    });
+  });
+
+  describe("Tie Policy", function () {
+    const EarliestSubmission = 0;
+    const SplitEvenly = 1;
+    const RandomTiebreak = 2;
+
+    async function startRoundWithPolicy(policy: number) {
+      await lotteryContract.setTiePolicy(policy);
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await lotteryContract.cancelRound();
+    }
+
+    async function currentWinningNumber() {
+      const roundData = await lotteryContract.rounds(await lotteryContract.currentRoundId());
+      return Number(await fhevm.debugger.decryptEuint(FhevmType.euint32, roundData.encryptedWinningNumber));
+    }
+
+    it("should only let the owner change the policy, from the next round", async function () {
+      await expect(
+        lotteryContract.connect(signers.alice).setTiePolicy(SplitEvenly)
+      ).to.be.revertedWithCustomError(lotteryContract, "NotOwner");
+
+      await expect(lotteryContract.setTiePolicy(SplitEvenly))
+        .to.emit(lotteryContract, "TiePolicyUpdated")
+        .withArgs(SplitEvenly);
+      expect(await lotteryContract.getRoundTiePolicy(1)).to.eq(EarliestSubmission);
+
+      await startRoundWithPolicy(SplitEvenly);
+      expect(await lotteryContract.getRoundTiePolicy(2)).to.eq(SplitEvenly);
+    });
+
+    it("should award ties to the earliest entry regardless of scoring order", async function () {
+      const winningNumber = await currentWinningNumber();
+      const direction = winningNumber < 512 ? 1 : -1;
+      const entries = [
+        { signer: signers.alice, guess: winningNumber + direction * 10, confidence: 60 },
+        { signer: signers.bob, guess: winningNumber + direction * 10, confidence: 60 },
+        { signer: signers.charlie, guess: winningNumber + direction * 300, confidence: 30 },
+        { signer: signers.dave, guess: winningNumber + direction * 500, confidence: 10 },
+      ];
+      for (const entry of entries) {
+        await enter(entry.signer, entry.guess, entry.confidence);
+      }
+
+      // Bob is scored before Alice
+      const roundId = await finalizeCurrentRound([[2, 2], [1, 1], [0, 1]]);
+
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      const expected = selectWinners(entries, winningNumber);
+      expect(winners[0].addr).to.eq(signers.alice.address);
+      expect(winners.map((w) => w.addr)).to.deep.eq(expected.map((i) => entries[i].signer.address));
+      expect(await lotteryContract.getCoWinners(roundId)).to.deep.eq([]);
+    });
+
+    it("should split the prize evenly between tied entries", async function () {
+      await startRoundWithPolicy(SplitEvenly);
+      const winningNumber = await currentWinningNumber();
+      const direction = winningNumber < 512 ? 1 : -1;
+
+      // Alice and Bob tie for conviction; Bob also takes accuracy as the runner-up
+      await enter(signers.alice, winningNumber, 100);
+      await enter(signers.bob, winningNumber, 100);
+      await enter(signers.charlie, winningNumber + direction * 100, 50);
+      await enter(signers.dave, winningNumber + direction * 400, 5);
+
+      const roundId = await finalizeCurrentRound();
+
+      // Bob (index 1) shares conviction; accuracy and calibration have no co-winners
+      expect(await lotteryContract.getRevealedCoWinnerMasks(roundId)).to.deep.eq([2n, 0n, 0n]);
+
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      const coWinners = await lotteryContract.getCoWinners(roundId);
+      expect(winners[0].addr).to.eq(signers.alice.address);
+      expect(winners[1].addr).to.eq(signers.bob.address);
+      expect(winners[2].addr).to.eq(signers.charlie.address);
+      expect(coWinners.length).to.eq(1);
+      expect(coWinners[0].addr).to.eq(signers.bob.address);
+      expect(coWinners[0].category).to.eq(0); // Conviction
+
+      const pool = ethers.parseEther("0.004");
+      const convictionPrize = ((pool - pool / 100n) * 5000n) / 10000n;
+      expect(coWinners[0].prize).to.eq(convictionPrize / 2n);
+      expect(winners[0].prize + coWinners[0].prize).to.eq(convictionPrize);
+    });
+
+    it("should split between every entry tied at the same score", async function () {
+      await startRoundWithPolicy(SplitEvenly);
+      const winningNumber = await currentWinningNumber();
+
+      const players = [signers.alice, signers.bob, signers.charlie, signers.dave];
+      for (const player of players) {
+        await enter(player, winningNumber, 100);
+      }
+
+      // Dave is scored first, so he is pushed out of every top 3 but must still share
+      const roundId = await finalizeCurrentRound([[3, 1], [0, 2], [2, 1]]);
+
+      // Each category winner is the earliest entry not taken by a higher-priority category
+      expect(await lotteryContract.getRevealedCoWinnerMasks(roundId)).to.deep.eq([0b1110n, 0b1100n, 0b1000n]);
+
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(winners.map((w) => w.addr)).to.deep.eq(players.slice(0, 3).map((p) => p.address));
+      const coWinners = await lotteryContract.getCoWinners(roundId);
+      expect(coWinners.map((w) => [w.addr, Number(w.category)])).to.deep.eq([
+        [signers.bob.address, 0],
+        [signers.charlie.address, 0],
+        [signers.dave.address, 0],
+        [signers.charlie.address, 1],
+        [signers.dave.address, 1],
+        [signers.dave.address, 2],
+      ]);
+
+      // Pool 0.004 ETH less the 1% fee, split 50/30/20, then 4, 3 and 2 ways
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(ethers.parseEther("0.000495"));
+      expect(await lotteryContract.claimable(signers.bob.address)).to.eq(ethers.parseEther("0.000891"));
+      expect(await lotteryContract.claimable(signers.charlie.address)).to.eq(ethers.parseEther("0.001287"));
+      expect(await lotteryContract.claimable(signers.dave.address)).to.eq(ethers.parseEther("0.001287"));
+    });
+
+    it("should break ties with the encrypted random seed", async function () {
+      await startRoundWithPolicy(RandomTiebreak);
+      const winningNumber = await currentWinningNumber();
+
+      const players = [signers.alice, signers.bob, signers.charlie, signers.dave];
+      for (const player of players) {
+        await enter(player, winningNumber, 100);
+      }
+
+      const roundId = await finalizeCurrentRound([[0, 3], [3, 1]]);
+
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      const addresses = new Set(winners.map((w) => w.addr));
+      expect(addresses.size).to.eq(3);
+      for (const winner of winners) {
+        expect(players.map((p) => p.address)).to.include(winner.addr);
+        expect(winner.distance).to.eq(0);
+      }
+      expect(await lotteryContract.getCoWinners(roundId)).to.deep.eq([]);
+    });
+  });
+
+  describe("Claims", function () {
+    let receiver: RejectingReceiver;
+    let receiverAddress: string;
+
+    beforeEach(async function () {
+      const factory = (await ethers.getContractFactory("RejectingReceiver")) as RejectingReceiver__factory;
+      receiver = (await factory.deploy(lotteryContractAddress)) as RejectingReceiver;
+      receiverAddress = await receiver.getAddress();
+    });
+
+    async function enterReceiver(guess: number, confidence: number) {
+      const encrypted = await fhevm
+        .createEncryptedInput(lotteryContractAddress, receiverAddress)
+        .add32(guess)
+        .add32(confidence)
+        .encrypt();
+
+      await receiver.enter(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+        value: ethers.parseEther("0.001"),
+      });
+    }
+
+    it("should credit refunds even when a participant rejects ETH", async function () {
+      const entryFee = ethers.parseEther("0.001");
+      await enterReceiver(500, 50);
+      await enter(signers.alice, 400, 40);
+
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await lotteryContract.cancelRound();
+
+      expect(await lotteryContract.claimable(receiverAddress)).to.eq(entryFee);
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(entryFee);
+
+      await expect(lotteryContract.connect(signers.alice).claim())
+        .to.emit(lotteryContract, "Claimed")
+        .withArgs(signers.alice.address, entryFee);
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(0n);
+      await expect(
+        lotteryContract.connect(signers.alice).claim()
+      ).to.be.revertedWithCustomError(lotteryContract, "NothingToClaim");
+
+      // The rejecting receiver keeps its credit until it accepts ETH
+      await expect(receiver.claim()).to.be.revertedWithCustomError(lotteryContract, "TransferFailed");
+      expect(await lotteryContract.claimable(receiverAddress)).to.eq(entryFee);
+
+      await receiver.setAccepting(true);
+      await receiver.claim();
+      expect(await lotteryContract.claimable(receiverAddress)).to.eq(0n);
+      expect(await ethers.provider.getBalance(receiverAddress)).to.eq(entryFee);
+    });
+
+    it("should finalize and credit prizes when a winner rejects ETH", async function () {
+      const winningNumber = Number(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, (await lotteryContract.rounds(1)).encryptedWinningNumber)
+      );
+      const direction = winningNumber < 512 ? 1 : -1;
+
+      // The receiver's exact, fully confident guess wins conviction
+      await enterReceiver(winningNumber, 100);
+      await enter(signers.alice, winningNumber + direction * 50, 50);
+      await enter(signers.bob, winningNumber + direction * 200, 20);
+
+      const roundId = await finalizeCurrentRound();
+
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(winners[0].addr).to.eq(receiverAddress);
+      expect((await lotteryContract.rounds(roundId)).status).to.eq(2); // Completed
+
+      // Everything in the pool is credited: three prizes plus the platform fee
+      const pool = ethers.parseEther("0.003");
+      const fee = pool / 100n;
+      expect(await lotteryContract.claimable(signers.treasury.address)).to.eq(fee);
+      let credited = fee;
+      for (const winner of winners) {
+        expect(await lotteryContract.claimable(winner.addr)).to.eq(winner.prize);
+        credited += winner.prize;
+      }
+      expect(credited).to.eq(pool);
+
+      await expect(receiver.claim()).to.be.revertedWithCustomError(lotteryContract, "TransferFailed");
+      await lotteryContract.connect(signers.alice).claim();
+      expect(await lotteryContract.claimable(signers.alice.address)).to.eq(0n);
+
+      await receiver.setAccepting(true);
+      await receiver.claim();
+      expect(await ethers.provider.getBalance(receiverAddress)).to.eq(winners[0].prize);
+    });
+  });
+
+  describe("Token Entry Fees", function () {
+    const ENTRY_PRICE = 5_000_000n; // 5 mUSD
+    let token: MockERC20Permit;
+    let tokenAddress: string;
+
+    beforeEach(async function () {
+      const tokenFactory = (await ethers.getContractFactory("MockERC20Permit")) as MockERC20Permit__factory;
+      token = (await tokenFactory.deploy()) as MockERC20Permit;
+      tokenAddress = await token.getAddress();
+
+      const factory = await getLotteryFactory();
+      lotteryContract = (await factory.deploy(signers.treasury.address, tokenAddress)) as PrivLottery;
+      lotteryContractAddress = await lotteryContract.getAddress();
+
+      const config = await lotteryContract.roundConfig();
+      await lotteryContract.setRoundConfig({
+        duration: config.duration,
+        entryPrice: ENTRY_PRICE,
+        maxParticipants: config.maxParticipants,
+        maxEntriesPerAddress: config.maxEntriesPerAddress,
+        extensionDuration: config.extensionDuration,
+        maxExtensions: config.maxExtensions,
+        claimWindow: config.claimWindow,
+        feeRolloverBps: config.feeRolloverBps,
+        platformFeeBps: config.platformFeeBps,
+        convictionShareBps: config.convictionShareBps,
+        accuracyShareBps: config.accuracyShareBps,
+        calibrationShareBps: config.calibrationShareBps,
+      });
+      await lotteryContract.applyConfigToCurrentRound();
+
+      for (const player of [signers.alice, signers.bob, signers.charlie, signers.dave]) {
+        await token.mint(player.address, ENTRY_PRICE * 10n);
+        await token.connect(player).approve(lotteryContractAddress, ethers.MaxUint256);
+      }
+    });
+
+    async function signPermit(owner: HardhatEthersSigner, value: bigint, deadline: bigint) {
+      const domain = {
+        name: await token.name(),
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: tokenAddress,
+      };
+      const types = {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      };
+      const message = {
+        owner: owner.address,
+        spender: lotteryContractAddress,
+        value,
+        nonce: await token.nonces(owner.address),
+        deadline,
+      };
+      return ethers.Signature.from(await owner.signTypedData(domain, types, message));
+    }
+
+    it("should take the entry price in the token", async function () {
+      expect(await lotteryContract.entryToken()).to.eq(tokenAddress);
+
+      await expect(enter(signers.alice, 500, 50, ethers.parseEther("0.001"))).to.be.revertedWithCustomError(
+        lotteryContract,
+        "IncorrectEntryFee"
+      );
+      await enter(signers.alice, 500, 50, 0n);
+
+      expect(await token.balanceOf(lotteryContractAddress)).to.eq(ENTRY_PRICE);
+      expect((await lotteryContract.getCurrentRound()).prizePool).to.eq(ENTRY_PRICE);
+
+      // Sponsorships are in ETH, which a token lottery cannot pay out
+      await expect(
+        lotteryContract.sponsorRound(1, "", { value: ENTRY_PRICE })
+      ).to.be.revertedWithCustomError(lotteryContract, "NotEthLottery");
+    });
+
+    it("should enter in one transaction with a permit", async function () {
+      const [player] = (await ethers.getSigners()).slice(6);
+      await token.mint(player.address, ENTRY_PRICE);
+
+      const deadline = BigInt((await ethers.provider.getBlock("latest"))!.timestamp + 3600);
+      const { v, r, s } = await signPermit(player, ENTRY_PRICE, deadline);
+      const encrypted = await fhevm
+        .createEncryptedInput(lotteryContractAddress, player.address)
+        .add32(500)
+        .add32(50)
+        .encrypt();
+
+      await expect(
+        lotteryContract
+          .connect(player)
+          .submitPredictionWithPermit(
+            encrypted.handles[0],
+            encrypted.handles[1],
+            encrypted.inputProof,
+            deadline,
+            v,
+            r,
+            s
+          )
+      ).to.emit(lotteryContract, "ParticipantJoined");
+
+      expect(await token.balanceOf(player.address)).to.eq(0n);
+      expect(await lotteryContract.hasParticipated(1, player.address)).to.eq(true);
+    });
+
+    it("should credit prizes, fees and refunds in the token", async function () {
+      const players = [signers.alice, signers.bob, signers.charlie];
+      for (const [i, player] of players.entries()) {
+        await enter(player, 100 + i * 300, 50, 0n);
+      }
+      const roundId = await finalizeCurrentRound();
+
+      const pool = ENTRY_PRICE * 3n;
+      const fee = pool / 100n;
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(winners.reduce((sum, w) => sum + w.prize, 0n)).to.eq(pool - fee);
+      expect(await lotteryContract.claimable(signers.treasury.address)).to.eq(fee);
+
+      const ethBefore = await ethers.provider.getBalance(lotteryContractAddress);
+      await lotteryContract.connect(signers.treasury).claim();
+      for (const winner of winners) {
+        const signer = await ethers.getSigner(winner.addr);
+        const before = await token.balanceOf(winner.addr);
+        await lotteryContract.connect(signer).claim();
+        expect(await token.balanceOf(winner.addr)).to.eq(before + winner.prize);
+      }
+      expect(await token.balanceOf(signers.treasury.address)).to.eq(fee);
+      expect(await token.balanceOf(lotteryContractAddress)).to.eq(0n);
+      expect(await ethers.provider.getBalance(lotteryContractAddress)).to.eq(ethBefore);
+
+      // A cancelled round refunds in the token too
+      await enter(signers.dave, 500, 50, 0n);
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await lotteryContract.cancelRound();
+
+      const daveBefore = await token.balanceOf(signers.dave.address);
+      await lotteryContract.connect(signers.dave).claim();
+      expect(await token.balanceOf(signers.dave.address)).to.eq(daveBefore + ENTRY_PRICE);
+    });
+
+    it("should reject permit entries on an ETH lottery", async function () {
+      const ethLottery = (await deployFixture()).lotteryContract;
+      await expect(
+        ethLottery.submitPredictionWithPermit(ethers.ZeroHash, ethers.ZeroHash, "0x", 0, 0, ethers.ZeroHash, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(ethLottery, "NotTokenLottery");
+    });
+  });
+
+  describe("Confidential Payouts", function () {
+    let payoutToken: MockConfidentialToken;
+    let payoutTokenAddress: string;
+
+    beforeEach(async function () {
+      const factory = (await ethers.getContractFactory("MockConfidentialToken")) as MockConfidentialToken__factory;
+      payoutToken = (await factory.deploy(ethers.ZeroAddress)) as MockConfidentialToken;
+      payoutTokenAddress = await payoutToken.getAddress();
+    });
+
+    it("should only accept a payout token wrapping the entry asset, from the next round", async function () {
+      const factory = (await ethers.getContractFactory("MockConfidentialToken")) as MockConfidentialToken__factory;
+      const wrongToken = await factory.deploy(signers.treasury.address);
+      await expect(
+        lotteryContract.setConfidentialPayoutToken(await wrongToken.getAddress())
+      ).to.be.revertedWithCustomError(lotteryContract, "InvalidPayoutToken");
+
+      await expect(lotteryContract.setConfidentialPayoutToken(payoutTokenAddress))
+        .to.emit(lotteryContract, "ConfidentialPayoutTokenUpdated")
+        .withArgs(payoutTokenAddress);
+      expect(await lotteryContract.getRoundPayoutToken(1)).to.eq(ethers.ZeroAddress);
+
+      await lotteryContract.applyConfigToCurrentRound();
+      expect(await lotteryContract.getRoundPayoutToken(1)).to.eq(payoutTokenAddress);
+    });
+
+    it("should pay prizes as encrypted balances only the winners can read", async function () {
+      const config = await lotteryContract.roundConfig();
+      await lotteryContract.setRoundConfig({
+        duration: config.duration,
+        entryPrice: config.entryPrice,
+        maxParticipants: config.maxParticipants,
+        maxEntriesPerAddress: config.maxEntriesPerAddress,
+        extensionDuration: config.extensionDuration,
+        maxExtensions: config.maxExtensions,
+        claimWindow: 24 * 60 * 60,
+        feeRolloverBps: config.feeRolloverBps,
+        platformFeeBps: config.platformFeeBps,
+        convictionShareBps: config.convictionShareBps,
+        accuracyShareBps: config.accuracyShareBps,
+        calibrationShareBps: config.calibrationShareBps,
+      });
+      await lotteryContract.setConfidentialPayoutToken(payoutTokenAddress);
+      await lotteryContract.applyConfigToCurrentRound();
+
+      const players = [signers.alice, signers.bob, signers.charlie];
+      for (const [i, player] of players.entries()) {
+        await enter(player, 100 + i * 300, 50);
+      }
+
+      const pool = ethers.parseEther("0.003");
+      const fee = pool / 100n;
+      const roundId = await finalizeCurrentRound();
+
+      // Prizes follow from public data, so they are recorded as usual; only the fee is a plain credit
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      const prizes = winners.map((winner) => winner.prize);
+      expect(prizes).to.deep.eq([
+        ethers.parseEther("0.001485"),
+        ethers.parseEther("0.000891"),
+        ethers.parseEther("0.000594"),
+      ]);
+      const declared = await lotteryContract.queryFilter(lotteryContract.filters.WinnerDeclared(roundId));
+      expect(declared.map((event) => event.args.prize)).to.deep.eq(prizes);
+      for (const player of players) {
+        expect(await lotteryContract.claimable(player.address)).to.eq(0n);
+      }
+      expect(await lotteryContract.claimable(signers.treasury.address)).to.eq(fee);
+      expect(await ethers.provider.getBalance(payoutTokenAddress)).to.eq(pool - fee);
+
+      // Each winner's encrypted balance holds exactly their prize
+      for (const winner of winners) {
+        const player = players.find((p) => p.address === winner.addr)!;
+        const handle = await payoutToken.confidentialBalanceOf(player.address);
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, handle, payoutTokenAddress, player)).to.eq(winner.prize);
+      }
+
+      const winnerBalance = await payoutToken.confidentialBalanceOf(winners[0].addr);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, winnerBalance, payoutTokenAddress, signers.treasury)
+      ).to.be.rejected;
+
+      // Paid at finalization, so nothing is left to roll over as unclaimed
+      await ethers.provider.send("evm_increaseTime", [24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(lotteryContract.rollOverUnclaimedPrizes(roundId))
+        .to.emit(lotteryContract, "UnclaimedPrizesRolledOver")
+        .withArgs(roundId, 0n);
+    });
+  });
+
+  describe("Input Range Enforcement", function () {
+    let attackers: HardhatEthersSigner[];
+
+    before(async function () {
+      attackers = (await ethers.getSigners()).slice(6, 8);
+    });
+
+    it("should keep out-of-range entries from winning any category", async function () {
+      const winningNumber = Number(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, (await lotteryContract.rounds(1)).encryptedWinningNumber)
+      );
+      const direction = winningNumber < 512 ? 1 : -1;
+
+      // Submitted first, so they would win every tie. An exact guess with a huge confidence
+      // would overflow the conviction score; a guess past MAX_GUESS would underflow it.
+      await enter(attackers[0], winningNumber, 4_000_000_000);
+      await enter(attackers[1], 5000, 100);
+      // Zero-confidence valid entries all score 0 conviction
+      await enter(signers.alice, winningNumber + direction * 100, 0);
+      await enter(signers.bob, winningNumber + direction * 200, 0);
+      await enter(signers.charlie, winningNumber + direction * 300, 0);
+
+      const roundId = await finalizeCurrentRound([
+        [0, 3],
+        [3, 2],
+      ]);
+
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(winners.map((winner) => winner.addr)).to.have.members([
+        signers.alice.address,
+        signers.bob.address,
+        signers.charlie.address,
+      ]);
+      for (const attacker of attackers) {
+        expect(await lotteryContract.claimable(attacker.address)).to.eq(0n);
+      }
+    });
+
+    it("should roll over the prize an out-of-range entry would win for lack of valid entries", async function () {
+      await enter(attackers[0], 5000, 100);
+      await enter(signers.alice, 500, 50);
+      await enter(signers.bob, 600, 60);
+
+      const roundId = await finalizeCurrentRound();
+
+      // Ranked last everywhere, the invalid entry is the only candidate left for calibration
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      expect(winners.slice(0, 2).map((winner) => winner.addr)).to.have.members([
+        signers.alice.address,
+        signers.bob.address,
+      ]);
+      expect(winners[2].addr).to.eq(ethers.ZeroAddress);
+      expect(winners[2].prize).to.eq(0n);
+      expect(await lotteryContract.claimable(attackers[0].address)).to.eq(0n);
+
+      const declared = await lotteryContract.queryFilter(lotteryContract.filters.WinnerDeclared(roundId));
+      expect(declared.map((event) => event.args.category)).to.deep.eq([0n, 1n]);
+
+      const pool = ethers.parseEther("0.003");
+      const calibrationPrize = ((pool - pool / 100n) * 2000n) / 10000n;
+      expect((await lotteryContract.rounds(roundId + 1n)).carriedOver).to.eq(calibrationPrize);
+    });
+
+    it("should store clamped inputs and unbeatable scores for an out-of-range entry", async function () {
+      await enter(attackers[0], 5000, 4_000_000_000);
+      await enter(signers.alice, 500, 50);
+      await enter(signers.bob, 600, 60);
+
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+      await lotteryContract.settleRound();
+      await lotteryContract.computeScoresBatch(0, 3);
+
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, lotteryContractAddress, attackers[0]);
+
+      const entry = await lotteryContract.getEntryHandles(round.roundId, 0);
+      expect(await decrypt(entry.encryptedGuess)).to.eq(1023n);
+      expect(await decrypt(entry.encryptedConfidence)).to.eq(100n);
+
+      const scores = await lotteryContract.getScoreHandles(round.roundId, 0);
+      expect(await decrypt(scores.encryptedDistance)).to.eq(1024n);
+      expect(await decrypt(scores.encryptedConvictionScore)).to.eq(0n);
+      expect(await decrypt(scores.encryptedCalibrationError)).to.eq(101n);
+    });
+  });
+
+  describe("Personal Scores", function () {
+    it("should let each participant decrypt only their own scores", async function () {
+      const entryFee = ethers.parseEther("0.001");
+      const players = [signers.alice, signers.bob, signers.charlie];
+
+      for (const player of players) {
+        const encrypted = await fhevm
+          .createEncryptedInput(lotteryContractAddress, player.address)
+          .add32(500)
+          .add32(50)
+          .encrypt();
+
+        await lotteryContract
+          .connect(player)
+          .submitPrediction(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, {
+            value: entryFee,
+          });
+      }
+
+      const round = await lotteryContract.getCurrentRound();
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+      await ethers.provider.send("evm_mine", []);
+
+      await lotteryContract.settleRound();
+      await lotteryContract.computeScoresBatch(0, 3);
+
+      const [aliceIndex] = await lotteryContract.getParticipantIndices(round.roundId, signers.alice.address);
+      const scores = await lotteryContract.getScoreHandles(round.roundId, aliceIndex);
+      expect(scores.scoresComputed).to.eq(true);
+
+      const distance = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        scores.encryptedDistance,
+        lotteryContractAddress,
+        signers.alice
+      );
+      const convictionScore = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        scores.encryptedConvictionScore,
+        lotteryContractAddress,
+        signers.alice
+      );
+      expect(distance).to.be.lte(1023n);
+      expect(convictionScore).to.eq((1023n - distance) * 50n);
+
+      let decryptFailed = false;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          scores.encryptedCalibrationError,
+          lotteryContractAddress,
+          signers.bob
+        );
+      } catch {
+        decryptFailed = true;
+      }
+      expect(decryptFailed).to.eq(true);
+    });
+  });
+
   describe("View Functions", function () {
     it("should return participant info", async function () {
       const entryFee = ethers.parseEther("0.001");
@@ -451,6 +1597,76 @@ describe("PrivLottery", function () {
       expect(participant.submittedAt).to.be.gt(0);
     });
 
+    it("should let a participant decrypt their own sealed entry", async function () {
+      const encryptedAlice = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+        .add32(512)
+        .add32(64)
+        .encrypt();
+
+      await lotteryContract
+        .connect(signers.alice)
+        .submitPrediction(
+          encryptedAlice.handles[0],
+          encryptedAlice.handles[1],
+          encryptedAlice.inputProof,
+          { value: ethers.parseEther("0.001") }
+        );
+
+      const entry = await lotteryContract.getEntryHandles(1, 0);
+      const guess = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        entry.encryptedGuess,
+        lotteryContractAddress,
+        signers.alice
+      );
+      const confidence = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        entry.encryptedConfidence,
+        lotteryContractAddress,
+        signers.alice
+      );
+
+      expect(guess).to.eq(512n);
+      expect(confidence).to.eq(64n);
+    });
+
+    it("should not let other players decrypt a sealed entry", async function () {
+      const encryptedAlice = await fhevm
+        .createEncryptedInput(lotteryContractAddress, signers.alice.address)
+        .add32(512)
+        .add32(64)
+        .encrypt();
+
+      await lotteryContract
+        .connect(signers.alice)
+        .submitPrediction(
+          encryptedAlice.handles[0],
+          encryptedAlice.handles[1],
+          encryptedAlice.inputProof,
+          { value: ethers.parseEther("0.001") }
+        );
+
+      const entry = await lotteryContract.getEntryHandles(1, 0);
+
+      let decryptFailed = false;
+      try {
+        await fhevm.userDecryptEuint(
+          FhevmType.euint32,
+          entry.encryptedGuess,
+          lotteryContractAddress,
+          signers.bob
+        );
+      } catch {
+        decryptFailed = true;
+      }
+      expect(decryptFailed).to.eq(true);
+
+      await expect(
+        lotteryContract.getEntryHandles(1, 1)
+      ).to.be.revertedWithCustomError(lotteryContract, "NotParticipant");
+    });
+
     it("should not expose winning number before reveal", async function () {
       const round = await lotteryContract.getCurrentRound();
       const revealedWinning = await lotteryContract.getRevealedWinningNumber(round.roundId);
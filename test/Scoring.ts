@@ -0,0 +1,108 @@
+import { PrivLottery, PrivLottery__factory } from "../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import {
+  MAX_CONFIDENCE,
+  MAX_GUESS,
+  ScoredEntry,
+  WinnerCategory,
+  categoryScore,
+  scoreEntry,
+  selectWinners,
+} from "../shared/scoring";
+import { createRandom } from "./helpers/random";
+import { finalize, revealWinners, scoreRound, seedEntries } from "./helpers/settlement";
+
+describe("Scoring", function () {
+  const SEEDS = [1, 42, 2024];
+
+  let players: HardhatEthersSigner[];
+  let lotteryContract: PrivLottery;
+  let lotteryContractAddress: string;
+
+  before(async function () {
+    const signers = await ethers.getSigners();
+    players = signers.slice(2);
+  });
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+    const factory = (await ethers.getContractFactory("PrivLottery", {
+      libraries: { LotteryScoring: await scoring.getAddress() },
+    })) as PrivLottery__factory;
+    lotteryContract = (await factory.deploy(signers[1].address, ethers.ZeroAddress)) as PrivLottery;
+    lotteryContractAddress = await lotteryContract.getAddress();
+  });
+
+  async function decryptScores(roundId: bigint, participantIndex: number, player: HardhatEthersSigner) {
+    const [, distance, conviction, calibration] = await lotteryContract.getScoreHandles(roundId, participantIndex);
+    const decrypt = (handle: string) =>
+      fhevm.userDecryptEuint(FhevmType.euint32, handle, lotteryContractAddress, player);
+    return {
+      distance: Number(await decrypt(distance)),
+      convictionScore: Number(await decrypt(conviction)),
+      calibrationError: Number(await decrypt(calibration)),
+    };
+  }
+
+  for (const seed of SEEDS) {
+    it(`should match decrypted on-chain scores and winners for random entries (seed ${seed})`, async function () {
+      const random = createRandom(seed);
+      const roundData = await lotteryContract.rounds(1);
+      const winningNumber = Number(
+        await fhevm.debugger.decryptEuint(FhevmType.euint32, roundData.encryptedWinningNumber)
+      );
+
+      // Boundary entries first, then random ones
+      const entries: ScoredEntry[] = [
+        { guess: 0, confidence: 1 },
+        { guess: MAX_GUESS, confidence: MAX_CONFIDENCE },
+        { guess: winningNumber, confidence: 1 },
+        // Out of range: clamped and ranked last
+        { guess: winningNumber, confidence: MAX_CONFIDENCE + 1 },
+      ];
+      while (entries.length < players.length) {
+        entries.push({ guess: random(MAX_GUESS), confidence: 1 + random(MAX_CONFIDENCE - 1) });
+      }
+
+      await seedEntries(
+        lotteryContract,
+        entries.map((entry, i) => ({ player: players[i], ...entry }))
+      );
+
+      const roundId = await scoreRound(lotteryContract);
+
+      for (let i = 0; i < entries.length; i++) {
+        const expected = scoreEntry(entries[i].guess, entries[i].confidence, winningNumber);
+        const actual = await decryptScores(roundId, i, players[i]);
+        expect(actual, `entry #${i} ${JSON.stringify(entries[i])}`).to.deep.eq({
+          distance: expected.distance,
+          convictionScore: expected.convictionScore,
+          calibrationError: expected.calibrationError,
+        });
+      }
+
+      await revealWinners(lotteryContract, roundId);
+      await finalize(lotteryContract, roundId);
+
+      expect(await lotteryContract.getRevealedWinningNumber(roundId)).to.eq(winningNumber);
+
+      const expectedWinners = selectWinners(entries, winningNumber);
+      const winners = await lotteryContract.getRoundWinners(roundId);
+      const categories = [WinnerCategory.Conviction, WinnerCategory.Accuracy, WinnerCategory.Calibration];
+      for (const category of categories) {
+        const entry = entries[expectedWinners[category]];
+        const winner = winners[category];
+        expect(winner.addr).to.eq(players[expectedWinners[category]].address);
+        expect(winner.guess).to.eq(entry.guess);
+        expect(winner.confidence).to.eq(entry.confidence);
+        expect(winner.score).to.eq(
+          categoryScore(category, scoreEntry(entry.guess, entry.confidence, winningNumber).distance, entry.confidence)
+        );
+      }
+    });
+  }
+});
@@ -0,0 +1,135 @@
+import { PrivLottery, PrivLottery__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { WinnerCategory } from "../shared/scoring";
+import { decryptWinningNumber, endRound, guessAtDistance, seedEntries, settleAndFinalize } from "./helpers/settlement";
+
+// Each scenario places guesses at fixed distances from the winning number, so every score,
+// winner and prize below can be worked out by hand from the default 1% fee and 50/30/20 shares
+describe("Settlement", function () {
+  const ENTRY_PRICE = ethers.parseEther("0.001");
+  const SplitEvenly = 1;
+
+  let treasury: HardhatEthersSigner;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let carol: HardhatEthersSigner;
+  let dave: HardhatEthersSigner;
+  let lotteryContract: PrivLottery;
+
+  before(async function () {
+    [, treasury, alice, bob, carol, dave] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+    const factory = (await ethers.getContractFactory("PrivLottery", {
+      libraries: { LotteryScoring: await scoring.getAddress() },
+    })) as PrivLottery__factory;
+    lotteryContract = (await factory.deploy(treasury.address, ethers.ZeroAddress)) as PrivLottery;
+  });
+
+  it("should pick one winner per category and promote past taken entries", async function () {
+    const w = await decryptWinningNumber(lotteryContract);
+
+    // Alice: distance 0, conviction 1023 * 90 = 92070, calibration |90 - 100| = 10
+    // Bob: distance 100, conviction 923 * 50 = 46150, calibration |50 - 90| = 40
+    // Carol: distance 400, conviction 623 * 60 = 37380, calibration |60 - 60| = 0
+    await seedEntries(lotteryContract, [
+      { player: alice, guess: guessAtDistance(w, 0), confidence: 90 },
+      { player: bob, guess: guessAtDistance(w, 100), confidence: 50 },
+      { player: carol, guess: guessAtDistance(w, 400), confidence: 60 },
+    ]);
+    const roundId = await settleAndFinalize(lotteryContract);
+
+    // Alice also leads accuracy, so Bob takes it as the next closest
+    const winners = await lotteryContract.getRoundWinners(roundId);
+    expect(winners.map((winner) => winner.addr)).to.deep.eq([alice.address, bob.address, carol.address]);
+    expect(winners.map((winner) => winner.score)).to.deep.eq([92070n, 923n, 0n]);
+    expect(winners[WinnerCategory.Accuracy].distance).to.eq(100);
+    expect(await lotteryContract.getCoWinners(roundId)).to.have.length(0);
+
+    // Pool 0.003 ETH, fee 0.00003 ETH, 0.00297 ETH split 50/30/20
+    expect(winners.map((winner) => winner.prize)).to.deep.eq([
+      ethers.parseEther("0.001485"),
+      ethers.parseEther("0.000891"),
+      ethers.parseEther("0.000594"),
+    ]);
+    expect(await lotteryContract.claimable(alice.address)).to.eq(ethers.parseEther("0.001485"));
+    expect(await lotteryContract.claimable(bob.address)).to.eq(ethers.parseEther("0.000891"));
+    expect(await lotteryContract.claimable(carol.address)).to.eq(ethers.parseEther("0.000594"));
+    expect(await lotteryContract.claimable(treasury.address)).to.eq(ethers.parseEther("0.00003"));
+  });
+
+  it("should split a tied category evenly under SplitEvenly", async function () {
+    await lotteryContract.setTiePolicy(SplitEvenly);
+    await endRound(lotteryContract);
+    await lotteryContract.cancelRound();
+    const w = await decryptWinningNumber(lotteryContract);
+
+    // Alice and Bob: distance 10, conviction 1013 * 80 = 81040, calibration |80 - 99| = 19
+    // Carol: distance 200, conviction 823 * 80 = 65840, calibration |80 - 80| = 0
+    // Dave: distance 500, conviction 523 * 5 = 2615, calibration |5 - 51| = 46
+    await seedEntries(lotteryContract, [
+      { player: alice, guess: guessAtDistance(w, 10), confidence: 80 },
+      { player: bob, guess: guessAtDistance(w, 10), confidence: 80 },
+      { player: carol, guess: guessAtDistance(w, 200), confidence: 80 },
+      { player: dave, guess: guessAtDistance(w, 500), confidence: 5 },
+    ]);
+    const roundId = await settleAndFinalize(lotteryContract);
+
+    // Bob shares conviction with Alice and still wins accuracy outright
+    const winners = await lotteryContract.getRoundWinners(roundId);
+    expect(winners.map((winner) => winner.addr)).to.deep.eq([alice.address, bob.address, carol.address]);
+    expect(winners.map((winner) => winner.score)).to.deep.eq([81040n, 1013n, 0n]);
+    const coWinners = await lotteryContract.getCoWinners(roundId);
+    expect(coWinners).to.have.length(1);
+    expect(coWinners[0].addr).to.eq(bob.address);
+    expect(coWinners[0].category).to.eq(WinnerCategory.Conviction);
+
+    // Pool 0.004 ETH, fee 0.00004 ETH, 0.00396 ETH split 50/30/20; conviction halved
+    expect(winners.map((winner) => winner.prize)).to.deep.eq([
+      ethers.parseEther("0.00099"),
+      ethers.parseEther("0.001188"),
+      ethers.parseEther("0.000792"),
+    ]);
+    expect(coWinners[0].prize).to.eq(ethers.parseEther("0.00099"));
+    expect(await lotteryContract.claimable(alice.address)).to.eq(ethers.parseEther("0.00099"));
+    expect(await lotteryContract.claimable(bob.address)).to.eq(ethers.parseEther("0.002178"));
+    expect(await lotteryContract.claimable(carol.address)).to.eq(ethers.parseEther("0.000792"));
+    expect(await lotteryContract.claimable(dave.address)).to.eq(0);
+    expect(await lotteryContract.claimable(treasury.address)).to.eq(ethers.parseEther("0.00004"));
+  });
+
+  it("should charge the fee on entries only when the pool is sponsored", async function () {
+    const w = await decryptWinningNumber(lotteryContract);
+    await lotteryContract
+      .connect(dave)
+      .sponsorRound(await lotteryContract.currentRoundId(), "", { value: ethers.parseEther("0.0005") });
+
+    // Alice: distance 0, confidence 100, leads every category
+    // Bob: distance 50, conviction 973 * 95 = 92435, calibration |95 - 95| = 0
+    // Carol: distance 300, conviction 723 * 30 = 21690, calibration |30 - 70| = 40
+    await seedEntries(lotteryContract, [
+      { player: alice, guess: guessAtDistance(w, 0), confidence: 100 },
+      { player: bob, guess: guessAtDistance(w, 50), confidence: 95 },
+      { player: carol, guess: guessAtDistance(w, 300), confidence: 30 },
+    ]);
+    const roundId = await settleAndFinalize(lotteryContract);
+
+    // Bob ties Alice on calibration but both are taken, so it falls to Carol
+    const winners = await lotteryContract.getRoundWinners(roundId);
+    expect(winners.map((winner) => winner.addr)).to.deep.eq([alice.address, bob.address, carol.address]);
+    expect(winners.map((winner) => winner.score)).to.deep.eq([102300n, 973n, 40n]);
+
+    // Pool 0.0035 ETH, fee 1% of the 0.003 ETH of entries, 0.00347 ETH split 50/30/20
+    expect((await lotteryContract.rounds(roundId)).prizePool).to.eq(3n * ENTRY_PRICE + ethers.parseEther("0.0005"));
+    expect(winners.map((winner) => winner.prize)).to.deep.eq([
+      ethers.parseEther("0.001735"),
+      ethers.parseEther("0.001041"),
+      ethers.parseEther("0.000694"),
+    ]);
+    expect(await lotteryContract.claimable(treasury.address)).to.eq(ethers.parseEther("0.00003"));
+  });
+});
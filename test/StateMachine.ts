@@ -0,0 +1,365 @@
+import { PrivLottery, PrivLottery__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ContractTransactionResponse } from "ethers";
+import { ethers, fhevm } from "hardhat";
+import { MAX_CONFIDENCE, MAX_GUESS } from "../shared/scoring";
+import { auditLottery } from "../scripts/lib/audit";
+import { keeperTick, nextKeeperAction, RoundStatus } from "../scripts/lib/keeper";
+import { createRandom } from "./helpers/random";
+
+type Action =
+  | "enter"
+  | "sponsor"
+  | "wait"
+  | "settle"
+  | "extend"
+  | "cancel"
+  | "computeScores"
+  | "requestReveal"
+  | "finishReveal"
+  | "claim"
+  | "rollOver";
+
+// Repeated entries weight the random choice
+const ACTIONS: Action[] = [
+  "enter", "enter", "enter", "enter",
+  "sponsor",
+  "wait", "wait",
+  "settle", "extend", "cancel",
+  "computeScores", "computeScores",
+  "requestReveal",
+  "finishReveal",
+  "claim", "claim",
+  "rollOver",
+];
+
+// Most steps draw from the actions that can progress the current status, so sequences
+// get through whole rounds while still trying every action out of turn
+const SETTLING_ACTIONS: Action[] = [
+  "computeScores", "computeScores", "computeScores",
+  "requestReveal", "requestReveal",
+  "finishReveal", "finishReveal", "finishReveal",
+];
+
+// Round status changes allowed within one round; a new round always starts Active
+const TRANSITIONS: Record<RoundStatus, RoundStatus[]> = {
+  [RoundStatus.Active]: [RoundStatus.Active, RoundStatus.Settling],
+  [RoundStatus.Settling]: [RoundStatus.Settling],
+  [RoundStatus.Completed]: [],
+  [RoundStatus.Cancelled]: [],
+};
+
+describe("Round State Machine", function () {
+  const SEEDS = [7, 1337, 90210];
+  const STEPS = 120;
+
+  const CONFIG = {
+    duration: 10 * 60,
+    entryPrice: ethers.parseEther("0.001"),
+    maxParticipants: 6,
+    maxEntriesPerAddress: 2,
+    extensionDuration: 5 * 60,
+    maxExtensions: 1,
+    claimWindow: 60 * 60,
+    feeRolloverBps: 2000,
+    platformFeeBps: 100,
+    convictionShareBps: 5000,
+    accuracyShareBps: 3000,
+    calibrationShareBps: 2000,
+  };
+
+  const silent = () => {};
+
+  let actors: HardhatEthersSigner[];
+  let lotteryContract: PrivLottery;
+  let lotteryContractAddress: string;
+  let deployBlock: number;
+
+  before(async function () {
+    actors = (await ethers.getSigners()).slice(2, 8);
+  });
+
+  beforeEach(async function () {
+    const signers = await ethers.getSigners();
+    const scoring = await (await ethers.getContractFactory("LotteryScoring")).deploy();
+    const factory = (await ethers.getContractFactory("PrivLottery", {
+      libraries: { LotteryScoring: await scoring.getAddress() },
+    })) as PrivLottery__factory;
+    lotteryContract = (await factory.deploy(signers[1].address, ethers.ZeroAddress)) as PrivLottery;
+    lotteryContractAddress = await lotteryContract.getAddress();
+    deployBlock = (await lotteryContract.deploymentTransaction()!.wait())!.blockNumber;
+
+    await lotteryContract.setRoundConfig(CONFIG);
+    await lotteryContract.applyConfigToCurrentRound();
+  });
+
+  for (const seed of SEEDS) {
+    it(`should keep its invariants under random action sequences (seed ${seed})`, async function () {
+      this.timeout(300000);
+      const random = createRandom(seed);
+      const tiePolicy = seed % 3;
+      await lotteryContract.setTiePolicy(tiePolicy);
+
+      // Everything the actors paid in and took out, to check the balance against
+      let ethIn = 0n;
+      let ethOut = 0n;
+      let previous = await lotteryContract.getCurrentRound();
+      const finished = new Map<bigint, RoundStatus>();
+      const log: string[] = [];
+
+      // Pin the next block's timestamp so predicates see the same time as the transaction
+      async function nextTimestamp() {
+        const block = await ethers.provider.getBlock("latest");
+        const timestamp = block!.timestamp + 1;
+        await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+        return BigInt(timestamp);
+      }
+
+      async function attempt(
+        expectSuccess: boolean,
+        label: string,
+        send: () => Promise<ContractTransactionResponse>
+      ) {
+        log.push(`${label} (expect ${expectSuccess ? "success" : "revert"})`);
+        const context = `seed ${seed}, step log:\n  ${log.join("\n  ")}`;
+        if (expectSuccess) {
+          await (await send()).wait();
+        } else {
+          await expect(send(), context).to.be.reverted;
+        }
+        return expectSuccess;
+      }
+
+      async function checkInvariants() {
+        const context = `seed ${seed} after: ${log[log.length - 1]}`;
+        const round = await lotteryContract.getCurrentRound();
+        const status = Number(round.status) as RoundStatus;
+
+        // Status transitions: a round only ends as Completed (from Settling) or Cancelled
+        // (from Active), and the next round starts Active with nothing scored
+        if (round.roundId !== previous.roundId) {
+          expect(round.roundId, context).to.eq(previous.roundId + 1n);
+          const ended = Number((await lotteryContract.rounds(previous.roundId)).status) as RoundStatus;
+          const from = Number(previous.status) as RoundStatus;
+          expect(
+            (ended === RoundStatus.Completed && from === RoundStatus.Settling) ||
+              (ended === RoundStatus.Cancelled && from === RoundStatus.Active),
+            `${context}: round ${previous.roundId} went from ${from} to ${ended}`
+          ).to.eq(true);
+          finished.set(previous.roundId, ended);
+          expect(status, context).to.eq(RoundStatus.Active);
+          expect(round.scoresComputedCount, context).to.eq(0n);
+        } else {
+          expect(TRANSITIONS[Number(previous.status) as RoundStatus], context).to.include(status);
+          expect(round.scoresComputedCount, context).to.be.gte(previous.scoresComputedCount);
+        }
+        for (const [roundId, ended] of finished) {
+          expect(Number((await lotteryContract.rounds(roundId)).status), context).to.eq(ended);
+        }
+
+        // scoresComputedCount never passes the participant count
+        expect(round.scoresComputedCount, context).to.be.lte(round.participantCount);
+
+        // No double entry: every ticket belongs to exactly one actor, within the per-address cap
+        const seen = new Set<bigint>();
+        for (const actor of actors) {
+          const indices = await lotteryContract.getParticipantIndices(round.roundId, actor.address);
+          expect(indices.length, context).to.be.lte(CONFIG.maxEntriesPerAddress);
+          for (const index of indices) {
+            expect(seen.has(index), `${context}: ticket ${index} listed twice`).to.eq(false);
+            seen.add(index);
+            expect((await lotteryContract.getParticipant(round.roundId, index)).addr, context).to.eq(actor.address);
+          }
+        }
+        expect(BigInt(seen.size), context).to.eq(round.participantCount);
+
+        // Fund conservation: the balance is exactly what came in minus what was claimed,
+        // and covers every open pool and credit
+        const [balance, openPools, owed] = await lotteryContract.reconcile();
+        expect(balance, context).to.eq(ethIn - ethOut);
+        expect(balance, context).to.be.gte(openPools + owed);
+
+        previous = round;
+      }
+
+      for (let step = 0; step < STEPS; step++) {
+        const round = await lotteryContract.getCurrentRound();
+        const config = await lotteryContract.getRoundConfig(round.roundId);
+        const status = Number(round.status) as RoundStatus;
+        const isActive = status === RoundStatus.Active;
+        const isSettling = status === RoundStatus.Settling;
+        const pool = isSettling && random(3) > 0 ? SETTLING_ACTIONS : ACTIONS;
+        const action = pool[random(pool.length - 1)];
+        const actor = actors[random(actors.length - 1)];
+        const label = `#${step} ${action} round ${round.roundId}`;
+
+        switch (action) {
+          case "enter": {
+            // Inputs may be out of range, and the fee occasionally wrong
+            const guess = random(MAX_GUESS + 100);
+            const confidence = random(MAX_CONFIDENCE + 20);
+            const wrongFee = random(7) === 0;
+            const value = wrongFee ? config.entryPrice - 1n : config.entryPrice;
+            const encrypted = await fhevm
+              .createEncryptedInput(lotteryContractAddress, actor.address)
+              .add32(guess)
+              .add32(confidence)
+              .encrypt();
+            const entries = await lotteryContract.entryCount(round.roundId, actor.address);
+            const now = await nextTimestamp();
+            const ok =
+              isActive &&
+              now < round.endTime &&
+              round.participantCount < config.maxParticipants &&
+              entries < config.maxEntriesPerAddress &&
+              !wrongFee;
+            if (
+              await attempt(ok, `${label} by ${actor.address} (${guess}, ${confidence})`, () =>
+                lotteryContract
+                  .connect(actor)
+                  .submitPrediction(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value })
+              )
+            ) {
+              ethIn += value;
+            }
+            break;
+          }
+
+          case "sponsor": {
+            const amount = BigInt(1 + random(999));
+            const roundId = random(4) === 0 ? round.roundId + 1n : round.roundId;
+            await nextTimestamp();
+            if (
+              await attempt(isActive && roundId === round.roundId, `${label} ${amount} wei to ${roundId}`, () =>
+                lotteryContract.connect(actor).sponsorRound(roundId, "", { value: amount })
+              )
+            ) {
+              ethIn += amount;
+            }
+            break;
+          }
+
+          case "wait": {
+            // A short step, past the round's end, or past the claim window
+            const block = await ethers.provider.getBlock("latest");
+            const targets = [
+              block!.timestamp + 120,
+              Math.max(block!.timestamp + 1, Number(round.endTime) + 1),
+              block!.timestamp + CONFIG.claimWindow,
+            ];
+            const target = targets[random(targets.length - 1)];
+            await ethers.provider.send("evm_setNextBlockTimestamp", [target]);
+            await ethers.provider.send("evm_mine", []);
+            log.push(`${label} to ${target}`);
+            break;
+          }
+
+          case "settle":
+          case "extend":
+          case "cancel": {
+            const now = await nextTimestamp();
+            const ended = isActive && now >= round.endTime;
+            const short = round.participantCount < 3n;
+            const canExtend = round.participantCount > 0n && round.extensionCount < config.maxExtensions;
+            const ok =
+              action === "settle"
+                ? ended && !short
+                : action === "extend"
+                  ? ended && short && canExtend
+                  : ended && short && !canExtend;
+            await attempt(ok, label, () =>
+              action === "settle"
+                ? lotteryContract.settleRound()
+                : action === "extend"
+                  ? lotteryContract.extendRound()
+                  : lotteryContract.cancelRound()
+            );
+            break;
+          }
+
+          case "computeScores": {
+            // Random, often overlapping, batches; already scored entries are skipped
+            const batchStart = random(Number(round.participantCount));
+            const batchSize = 1 + random(2);
+            await nextTimestamp();
+            await attempt(
+              isSettling && BigInt(batchStart) < round.participantCount,
+              `${label} [${batchStart}, +${batchSize})`,
+              () => lotteryContract.computeScoresBatch(batchStart, batchSize)
+            );
+            break;
+          }
+
+          case "requestReveal": {
+            const reveal = await lotteryContract.getRevealStatus(round.roundId);
+            await nextTimestamp();
+            await attempt(
+              isSettling && round.scoresComputedCount === round.participantCount && !reveal.revealRequested,
+              label,
+              () => lotteryContract.requestWinnerReveal()
+            );
+            break;
+          }
+
+          case "finishReveal": {
+            // Decrypting needs the KMS proof, so the keeper submits the two reveal steps
+            const next = await nextKeeperAction(lotteryContract);
+            if (next === "revealIndices" || next === "finalize") {
+              log.push(`${label} via keeper: ${next}`);
+              await keeperTick({ lottery: lotteryContract, decryptor: fhevm, log: silent });
+            } else {
+              log.push(`${label} skipped (${next})`);
+            }
+            break;
+          }
+
+          case "claim": {
+            const owed = await lotteryContract.claimable(actor.address);
+            await nextTimestamp();
+            if (await attempt(owed > 0n, `${label} ${owed} by ${actor.address}`, () => lotteryContract.connect(actor).claim())) {
+              ethOut += owed;
+            }
+            break;
+          }
+
+          case "rollOver": {
+            const roundId = BigInt(1 + random(Number(round.roundId) - 1));
+            const target = await lotteryContract.rounds(roundId);
+            const targetConfig = await lotteryContract.getRoundConfig(roundId);
+            const now = await nextTimestamp();
+            const ok =
+              Number(target.status) === RoundStatus.Completed &&
+              now >= target.completedAt + targetConfig.claimWindow &&
+              !target.unclaimedRolledOver;
+            await attempt(ok, `${label} of round ${roundId}`, () => lotteryContract.rollOverUnclaimedPrizes(roundId));
+            break;
+          }
+        }
+
+        await checkInvariants();
+      }
+
+      // Drain: let the keeper finish whatever round is in progress
+      for (let i = 0; i < 20; i++) {
+        const round = await lotteryContract.getCurrentRound();
+        if (Number(round.status) === RoundStatus.Active) {
+          const block = await ethers.provider.getBlock("latest");
+          if (BigInt(block!.timestamp) < round.endTime) {
+            await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+            await ethers.provider.send("evm_mine", []);
+          }
+        }
+        const action = await keeperTick({ lottery: lotteryContract, decryptor: fhevm, log: silent });
+        log.push(`drain: ${action}`);
+        await checkInvariants();
+        if (action === "cancel" || action === "finalize") break;
+      }
+
+      // Whatever the balance holds beyond pools and credits is rounding dust
+      const report = await auditLottery({ lottery: lotteryContract, fromBlock: deployBlock, log: silent });
+      expect(report.issues, `seed ${seed}`).to.deep.eq([]);
+      expect(report.unexplainedSurplus, `seed ${seed}`).to.eq(0n);
+    });
+  }
+});
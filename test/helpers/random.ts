@@ -0,0 +1,12 @@
+// Small seeded PRNG (mulberry32) so failures are reproducible
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return (maxInclusive: number) => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    return Math.floor(value * (maxInclusive + 1));
+  };
+}
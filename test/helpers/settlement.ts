@@ -0,0 +1,140 @@
+import { PrivLottery } from "../../types";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { MAX_GUESS, MIN_GUESS, TiePolicy } from "../../shared/scoring";
+
+export const SCORE_BATCH_SIZE = 3;
+// Tracking ties under SplitEvenly costs enough HCU that only two entries fit a batch
+export const SPLIT_EVENLY_SCORE_BATCH_SIZE = 2;
+
+export interface SeededEntry {
+  player: HardhatEthersSigner;
+  guess: number;
+  confidence: number;
+}
+
+export interface SettleOptions {
+  // Explicit [batchStart, batchSize] calls, in order; defaults to consecutive batches
+  batches?: [number, number][];
+  batchSize?: number;
+}
+
+/**
+ * Encrypt and submit each entry from its player, paying the current round's entry price
+ * unless `value` is given (0 for token lotteries)
+ */
+export async function seedEntries(lottery: PrivLottery, entries: SeededEntry[], value?: bigint) {
+  const address = await lottery.getAddress();
+  const price = value ?? (await lottery.getRoundConfig(await lottery.currentRoundId())).entryPrice;
+
+  for (const { player, guess, confidence } of entries) {
+    const encrypted = await fhevm
+      .createEncryptedInput(address, player.address)
+      .add32(guess)
+      .add32(confidence)
+      .encrypt();
+
+    await lottery
+      .connect(player)
+      .submitPrediction(encrypted.handles[0], encrypted.handles[1], encrypted.inputProof, { value: price });
+  }
+}
+
+/**
+ * The current round's winning number, read through the mock's debug decryption
+ */
+export async function decryptWinningNumber(lottery: PrivLottery, roundId?: bigint) {
+  const round = await lottery.rounds(roundId ?? (await lottery.currentRoundId()));
+  return Number(await fhevm.debugger.decryptEuint(FhevmType.euint32, round.encryptedWinningNumber));
+}
+
+/**
+ * A valid guess exactly `distance` away from the winning number. Distances up to
+ * (MAX_GUESS + 1) / 2 are reachable from any winning number.
+ */
+export function guessAtDistance(winningNumber: number, distance: number) {
+  if (winningNumber + distance <= MAX_GUESS) return winningNumber + distance;
+  if (winningNumber - distance >= MIN_GUESS) return winningNumber - distance;
+  throw new Error(`No guess is ${distance} away from ${winningNumber}`);
+}
+
+export async function endRound(lottery: PrivLottery) {
+  const round = await lottery.getCurrentRound();
+  await ethers.provider.send("evm_setNextBlockTimestamp", [Number(round.endTime) + 1]);
+  await ethers.provider.send("evm_mine", []);
+}
+
+/**
+ * End and settle the current round, then compute every score batch
+ */
+export async function scoreRound(lottery: PrivLottery, options: SettleOptions = {}) {
+  const round = await lottery.getCurrentRound();
+  await endRound(lottery);
+  await lottery.settleRound();
+
+  const splitEvenly = Number(await lottery.getRoundTiePolicy(round.roundId)) === TiePolicy.SplitEvenly;
+  const batchSize = options.batchSize ?? (splitEvenly ? SPLIT_EVENLY_SCORE_BATCH_SIZE : SCORE_BATCH_SIZE);
+  const batches: [number, number][] = options.batches ?? [];
+  if (!options.batches) {
+    for (let start = 0; start < Number(round.participantCount); start += batchSize) {
+      batches.push([start, batchSize]);
+    }
+  }
+  for (const [batchStart, size] of batches) {
+    await lottery.computeScoresBatch(batchStart, size);
+  }
+  return round.roundId;
+}
+
+/**
+ * Request the reveal, public-decrypt the 6 winner index handles and submit them with the proof
+ */
+export async function revealWinners(lottery: PrivLottery, roundId: bigint) {
+  await lottery.requestWinnerReveal();
+
+  // Order: convictionIdx, accuracyIdx, calibrationIdx, then one co-winner mask per category
+  const handles = [...(await lottery.getWinnerIndexHandles(roundId))];
+  const decrypted = await fhevm.publicDecrypt(handles);
+  const clearValues = decrypted.clearValues as Record<string, bigint>;
+  const idx = handles.map((h) => clearValues[h]);
+  await lottery.revealWinnerIndices(
+    idx[0],
+    idx[1],
+    idx[2],
+    [idx[3], idx[4], idx[5]],
+    decrypted.decryptionProof
+  );
+}
+
+/**
+ * Public-decrypt the 13 finalization handles and finalize the round with the proof
+ */
+export async function finalize(lottery: PrivLottery, roundId: bigint) {
+  // Order: winningNumber, convictionIdx, accuracyIdx, calibrationIdx,
+  //        then for each winner: guess, confidence, distance
+  const handles = [...(await lottery.getFinalizationHandles(roundId))];
+  const decrypted = await fhevm.publicDecrypt(handles);
+  const clearValues = decrypted.clearValues as Record<string, bigint>;
+  const values = handles.map((h) => clearValues[h]);
+  await lottery.finalizeRound(
+    values[0],
+    values[1],
+    values[2],
+    values[3],
+    [values[4], values[7], values[10]],
+    [values[5], values[8], values[11]],
+    [values[6], values[9], values[12]],
+    decrypted.decryptionProof
+  );
+}
+
+/**
+ * Take the current round from its entries to Completed: settle, score, reveal and finalize
+ */
+export async function settleAndFinalize(lottery: PrivLottery, options: SettleOptions = {}) {
+  const roundId = await scoreRound(lottery, options);
+  await revealWinners(lottery, roundId);
+  await finalize(lottery, roundId);
+  return roundId;
+}